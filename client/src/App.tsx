@@ -6,12 +6,15 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { WalletProvider } from "@/components/WalletProvider";
 import { Header } from "@/components/Header";
 import Dashboard from "@/pages/Dashboard";
+import GiftVaults from "@/pages/GiftVaults";
 import NotFound from "@/pages/not-found";
 
 function Router() {
   return (
     <Switch>
       <Route path="/" component={Dashboard} />
+      <Route path="/gift-vaults" component={GiftVaults} />
+      <Route path="/gift-vaults/claim" component={GiftVaults} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -4,7 +4,7 @@ import { ThemeToggle } from "./ThemeToggle";
 import { SiGithub, SiX, SiSolana, SiEthereum, SiBinance } from "react-icons/si";
 import { Button } from "@/components/ui/button";
 import { Link, useLocation } from "wouter";
-import { Brain, Shuffle } from "lucide-react";
+import { Brain, Gift, Shuffle } from "lucide-react";
 import logoImage from "@assets/2025-12-28_15.45.39_1766912052974.jpg";
 
 export function Header() {
@@ -61,6 +61,18 @@ export function Header() {
                 Hive Mind
               </Link>
             </Button>
+            <Button
+              variant={location.startsWith("/gift-vaults") ? "secondary" : "ghost"}
+              size="sm"
+              className="gap-2"
+              asChild
+              data-testid="nav-gift-vaults"
+            >
+              <Link href="/gift-vaults">
+                <Gift className="w-4 h-4" />
+                Gift Vaults
+              </Link>
+            </Button>
           </nav>
         </div>
 
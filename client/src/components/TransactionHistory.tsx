@@ -10,21 +10,26 @@ import {
   ArrowDownLeft,
   ExternalLink,
   History,
+  KeyRound,
 } from "lucide-react";
 import type { Transaction } from "@shared/schema";
+import { useWalletAuth } from "@/hooks/use-wallet-auth";
 
 export function TransactionHistory() {
   const { publicKey, connected } = useWallet();
+  const { isSignedIn, signIn, isSigningIn, signInError } = useWalletAuth();
 
   const { data: transactions, isLoading, isError, error, refetch } = useQuery<Transaction[]>({
     queryKey: ["/api/transactions", publicKey?.toBase58()],
     queryFn: async () => {
       if (!publicKey) return [];
-      const res = await fetch(`/api/transactions?address=${publicKey.toBase58()}`);
+      const res = await fetch(`/api/transactions?address=${publicKey.toBase58()}`, {
+        credentials: "include",
+      });
       if (!res.ok) throw new Error("Failed to fetch transactions");
       return res.json();
     },
-    enabled: connected && !!publicKey,
+    enabled: connected && !!publicKey && isSignedIn,
     retry: 2,
   });
 
@@ -85,6 +90,33 @@ export function TransactionHistory() {
     );
   }
 
+  if (!isSignedIn) {
+    return (
+      <Card className="shadow-sm">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 font-serif text-lg">
+            <History className="w-5 h-5 text-primary" />
+            Transaction History
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="flex flex-col items-center gap-4 py-8 text-center">
+          <p className="text-muted-foreground">
+            Sign a message with your wallet to prove ownership and view your history
+          </p>
+          <Button onClick={() => signIn()} disabled={isSigningIn} data-testid="button-wallet-sign-in">
+            <KeyRound className="w-4 h-4 mr-2" />
+            {isSigningIn ? "Waiting for signature..." : "Sign In With Wallet"}
+          </Button>
+          {signInError && (
+            <p className="text-sm text-red-600 dark:text-red-400">
+              {signInError instanceof Error ? signInError.message : "Sign-in failed"}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    );
+  }
+
   return (
     <Card className="shadow-sm">
       <CardHeader>
@@ -62,6 +62,31 @@ const transferSchema = z.object({
 
 type TransferFormData = z.infer<typeof transferSchema>;
 
+type MixerQuote = {
+  quoteId: string;
+  amount: string;
+  serviceFee: string;
+  networkFee: string;
+  payoutAmount: string;
+  expiresAt: string;
+};
+
+const PAYOUT_POLL_INTERVAL_MS = 3000;
+const PAYOUT_POLL_TIMEOUT_MS = 5 * 60 * 1000;
+
+async function waitForPayout(sessionId: string): Promise<{ status: string; payoutSignature: string | null }> {
+  const deadline = Date.now() + PAYOUT_POLL_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    const response = await apiRequest("GET", `/api/mixer/sessions/${sessionId}`);
+    const session = await response.json();
+    if (["completed", "payout_failed", "refund_pending", "refunded", "held_for_review"].includes(session.status)) {
+      return session;
+    }
+    await new Promise((resolve) => setTimeout(resolve, PAYOUT_POLL_INTERVAL_MS));
+  }
+  throw new Error("Payout is still processing. Check your transfer history shortly.");
+}
+
 export function TransferForm() {
   const { connection } = useConnection();
   const { publicKey, sendTransaction, connected } = useWallet();
@@ -70,6 +95,7 @@ export function TransferForm() {
   const [showConfirmation, setShowConfirmation] = useState(false);
   const [confirmChecked, setConfirmChecked] = useState(false);
   const [pendingTransfer, setPendingTransfer] = useState<TransferFormData | null>(null);
+  const [quote, setQuote] = useState<MixerQuote | null>(null);
   const [transferStep, setTransferStep] = useState<"idle" | "sending" | "confirming" | "complete">("idle");
 
   const { data: poolData } = useQuery<{ poolAddress: string }>({
@@ -85,18 +111,42 @@ export function TransferForm() {
     },
   });
 
-  const privateTransferMutation = useMutation({
+  const quoteMutation = useMutation({
     mutationFn: async (data: TransferFormData) => {
+      const response = await apiRequest("POST", "/api/mixer/quote", {
+        chain: "solana",
+        amount: data.amount,
+      });
+      return (await response.json()) as MixerQuote;
+    },
+    onSuccess: (result, data) => {
+      setQuote(result);
+      setPendingTransfer(data);
+      setShowConfirmation(true);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Quote Unavailable",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const privateTransferMutation = useMutation({
+    mutationFn: async ({ data, quoteId }: { data: TransferFormData; quoteId: string }) => {
       if (!publicKey) throw new Error("Wallet not connected");
       if (!poolData?.poolAddress) throw new Error("Private transfer not available");
 
       setTransferStep("sending");
 
+      const idempotencyKey = crypto.randomUUID();
       const sessionResponse = await apiRequest("POST", "/api/mixer/sessions", {
         senderAddress: publicKey.toBase58(),
         recipientAddress: data.recipient,
         amount: data.amount,
-      });
+        quoteId,
+      }, { "Idempotency-Key": idempotencyKey });
       const session = await sessionResponse.json();
 
       const poolPubkey = new PublicKey(poolData.poolAddress);
@@ -116,21 +166,30 @@ export function TransferForm() {
 
       const depositSignature = await sendTransaction(transaction, connection);
 
+      // The server only accepts finalized deposits.
       await connection.confirmTransaction({
         signature: depositSignature,
         blockhash,
         lastValidBlockHeight,
-      });
+      }, "finalized");
 
       setTransferStep("confirming");
 
       const confirmResponse = await apiRequest("POST", `/api/mixer/sessions/${session.sessionId}/confirm-deposit`, {
         depositSignature,
-      });
-      const result = await confirmResponse.json();
+      }, { "Idempotency-Key": idempotencyKey });
+      const confirmResult = await confirmResponse.json();
 
       if (!confirmResponse.ok) {
-        throw new Error(result.error || "Failed to complete private transfer");
+        throw new Error(confirmResult.error || "Failed to complete private transfer");
+      }
+
+      const result = await waitForPayout(session.sessionId);
+      if (result.status === "held_for_review") {
+        throw new Error("Your transfer is being held for compliance review.");
+      }
+      if (result.status !== "completed") {
+        throw new Error("Payout failed. Your deposit will be refunded to your wallet.");
       }
 
       setTransferStep("complete");
@@ -162,6 +221,7 @@ export function TransferForm() {
       setShowConfirmation(false);
       setConfirmChecked(false);
       setPendingTransfer(null);
+      setQuote(null);
       setTransferStep("idle");
       queryClient.invalidateQueries({ queryKey: ["balance"] });
       queryClient.invalidateQueries({ queryKey: ["/api/mixer/sessions"] });
@@ -174,18 +234,18 @@ export function TransferForm() {
       });
       setShowConfirmation(false);
       setConfirmChecked(false);
+      setQuote(null);
       setTransferStep("idle");
     },
   });
 
   const onSubmit = (data: TransferFormData) => {
-    setPendingTransfer(data);
-    setShowConfirmation(true);
+    quoteMutation.mutate(data);
   };
 
   const confirmTransfer = () => {
-    if (pendingTransfer && confirmChecked) {
-      privateTransferMutation.mutate(pendingTransfer);
+    if (pendingTransfer && quote && confirmChecked) {
+      privateTransferMutation.mutate({ data: pendingTransfer, quoteId: quote.quoteId });
     }
   };
 
@@ -285,12 +345,8 @@ export function TransferForm() {
                     Private
                   </span>
                 </div>
-                <div className="flex items-center justify-between">
-                  <span className="text-sm text-muted-foreground">Network Fee (2 txns)</span>
-                  <span className="font-mono text-sm">~0.00001 SOL</span>
-                </div>
                 <p className="text-xs text-muted-foreground">
-                  Recipient receives amount minus small network fee (~0.000005 SOL)
+                  Recipient receives amount minus the service and network fees, shown before you confirm
                 </p>
               </div>
 
@@ -305,7 +361,7 @@ export function TransferForm() {
               <Button
                 type="submit"
                 className="w-full h-11"
-                disabled={privateTransferMutation.isPending || !poolData?.poolAddress}
+                disabled={privateTransferMutation.isPending || quoteMutation.isPending || !poolData?.poolAddress}
                 data-testid="button-review-transfer"
               >
                 {privateTransferMutation.isPending ? (
@@ -313,6 +369,11 @@ export function TransferForm() {
                     <Loader2 className="w-4 h-4 mr-2 animate-spin" />
                     {getStepMessage()}
                   </>
+                ) : quoteMutation.isPending ? (
+                  <>
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    Fetching quote...
+                  </>
                 ) : (
                   <>
                     Review Private Transfer
@@ -371,6 +432,31 @@ export function TransferForm() {
                   {pendingTransfer?.amount} SOL
                 </span>
               </div>
+              {quote && (
+                <>
+                  <div className="flex justify-between items-center gap-4">
+                    <span className="text-sm text-muted-foreground">Service Fee</span>
+                    <span className="font-mono text-sm" data-testid="text-confirm-service-fee">
+                      {quote.serviceFee} SOL
+                    </span>
+                  </div>
+                  <div className="flex justify-between items-center gap-4">
+                    <span className="text-sm text-muted-foreground">Network Fee</span>
+                    <span className="font-mono text-sm" data-testid="text-confirm-network-fee">
+                      {quote.networkFee} SOL
+                    </span>
+                  </div>
+                  <div className="flex justify-between items-center gap-4 pt-3 border-t">
+                    <span className="text-sm font-medium">Recipient Receives</span>
+                    <span className="font-semibold" data-testid="text-confirm-payout">
+                      {quote.payoutAmount} SOL
+                    </span>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Quote valid until {new Date(quote.expiresAt).toLocaleTimeString()}
+                  </p>
+                </>
+              )}
             </div>
 
             <div className="flex items-start gap-3 p-3 rounded-lg border">
@@ -0,0 +1,63 @@
+import { useWallet } from "@solana/wallet-adapter-react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import bs58 from "bs58";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+
+interface WalletIdentity {
+  chain: string;
+  address: string;
+}
+
+// Sign-In With Solana: the server issues a one-time message, the wallet signs it and the server
+// sets a session cookie for that address.
+export function useWalletAuth() {
+  const { publicKey, signMessage } = useWallet();
+  const address = publicKey?.toBase58();
+
+  const { data: wallet, isLoading } = useQuery<WalletIdentity | null>({
+    queryKey: ["/api/auth/wallet"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const signInMutation = useMutation({
+    mutationFn: async () => {
+      if (!address || !signMessage) {
+        throw new Error("Connected wallet does not support message signing");
+      }
+
+      const nonceResponse = await apiRequest("POST", "/api/auth/wallet/nonce", { chain: "solana", address });
+      const { message } = await nonceResponse.json();
+      const signature = await signMessage(new TextEncoder().encode(message));
+
+      const verifyResponse = await apiRequest("POST", "/api/auth/wallet/verify", {
+        message,
+        signature: bs58.encode(signature),
+      });
+      return (await verifyResponse.json()) as WalletIdentity;
+    },
+    onSuccess: (identity) => {
+      queryClient.setQueryData(["/api/auth/wallet"], identity);
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/mixer/sessions"] });
+    },
+  });
+
+  const signOutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/wallet/logout");
+    },
+    onSuccess: () => {
+      queryClient.setQueryData(["/api/auth/wallet"], null);
+    },
+  });
+
+  return {
+    wallet: wallet ?? null,
+    isSignedIn: !!wallet && wallet.address === address,
+    isLoading,
+    signIn: signInMutation.mutate,
+    isSigningIn: signInMutation.isPending,
+    signInError: signInMutation.error,
+    signOut: signOutMutation.mutate,
+  };
+}
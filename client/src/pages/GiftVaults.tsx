@@ -1,15 +1,19 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { useLocation } from "wouter";
+import { QRCodeSVG } from "qrcode.react";
 import { useWallet } from "@solana/wallet-adapter-react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useWalletAuth } from "@/hooks/use-wallet-auth";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import {
   Form,
   FormControl,
@@ -30,15 +34,34 @@ import {
   CheckCircle,
   AlertCircle,
   Send,
+  Undo2,
 } from "lucide-react";
 
 const createVaultSchema = z.object({
   amount: z.string().refine((v) => parseFloat(v) > 0, "Amount must be positive"),
   expiresInDays: z.string().optional(),
+  maxClaims: z.string().refine((v) => {
+    const n = Number(v);
+    return Number.isInteger(n) && n >= 1 && n <= 1000;
+  }, "Between 1 and 1000 claims"),
+  splitMode: z.enum(["equal", "random"]),
 });
 
+// Mirrors the server: codes are six words, compared without regard to case or separators.
+const normalizeCode = (code: string) =>
+  code.toLowerCase().split(/[^a-z]+/).filter(Boolean).join("-");
+
+// The code rides in the fragment so it never reaches the server or its access logs.
+const CLAIM_PATH = "/gift-vaults/claim";
+
+const buildClaimLink = (code: string) =>
+  `${window.location.origin}${CLAIM_PATH}#code=${encodeURIComponent(code)}`;
+
+const readCodeFromFragment = () =>
+  new URLSearchParams(window.location.hash.slice(1)).get("code");
+
 const claimVaultSchema = z.object({
-  code: z.string().min(4, "Code is required"),
+  code: z.string().refine((v) => normalizeCode(v).split("-").length === 6, "Gift codes are six words"),
 });
 
 type PoolInfo = {
@@ -53,6 +76,8 @@ type VaultPreview = {
   amount: number;
   tokenMint: string;
   status: string;
+  maxClaims: number;
+  claimedCount: number;
   createdAt: string;
   expiresAt: string | null;
 };
@@ -67,9 +92,12 @@ type CreatedVault = {
 
 type MyVault = {
   id: string;
-  code: string;
   amount: number;
   status: string;
+  maxClaims: number;
+  claimedCount: number;
+  splitMode: "equal" | "random";
+  depositSignature: string | null;
   createdAt: string;
   expiresAt: string | null;
   claimedAt: string | null;
@@ -78,6 +106,9 @@ type MyVault = {
 export default function GiftVaults() {
   const { publicKey, connected, signMessage } = useWallet();
   const { toast } = useToast();
+  const { isSignedIn, signIn, isSigningIn } = useWalletAuth();
+  const [location] = useLocation();
+  const [activeTab, setActiveTab] = useState(location === CLAIM_PATH ? "claim" : "create");
   const [copiedCode, setCopiedCode] = useState<string | null>(null);
   const [createdVault, setCreatedVault] = useState<CreatedVault | null>(null);
   const [vaultPreview, setVaultPreview] = useState<VaultPreview | null>(null);
@@ -92,7 +123,7 @@ export default function GiftVaults() {
 
   const { data: myVaults, isLoading: loadingVaults } = useQuery<MyVault[]>({
     queryKey: ["/api/gift-vaults/creator", publicKey?.toBase58()],
-    enabled: !!publicKey,
+    enabled: !!publicKey && isSignedIn,
   });
 
   const createForm = useForm({
@@ -100,6 +131,8 @@ export default function GiftVaults() {
     defaultValues: {
       amount: "",
       expiresInDays: "30",
+      maxClaims: "1",
+      splitMode: "equal" as const,
     },
   });
 
@@ -111,11 +144,13 @@ export default function GiftVaults() {
   });
 
   const createMutation = useMutation({
-    mutationFn: async (data: { amount: string; expiresInDays?: string }) => {
+    mutationFn: async (data: z.infer<typeof createVaultSchema>) => {
       const response = await apiRequest("POST", "/api/gift-vaults", {
         creatorAddress: publicKey?.toBase58(),
         amount: parseFloat(data.amount),
         expiresInDays: data.expiresInDays ? parseInt(data.expiresInDays) : undefined,
+        maxClaims: parseInt(data.maxClaims),
+        splitMode: data.splitMode,
       });
       return response.json();
     },
@@ -197,7 +232,12 @@ export default function GiftVaults() {
 
   const checkMutation = useMutation({
     mutationFn: async (code: string) => {
-      const response = await fetch(`/api/gift-vaults/check/${code}`);
+      const response = await fetch("/api/gift-vaults/check", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ code: normalizeCode(code) }),
+        credentials: "include",
+      });
       if (!response.ok) {
         const error = await response.json();
         throw new Error(error.error || "Vault not found");
@@ -217,13 +257,22 @@ export default function GiftVaults() {
     },
   });
 
+  // Opening a share link fills in the code and checks it straight away.
+  useEffect(() => {
+    const code = readCodeFromFragment();
+    if (!code) return;
+    claimForm.setValue("code", code);
+    setActiveTab("claim");
+    checkMutation.mutate(code);
+  }, []);
+
   const claimMutation = useMutation({
     mutationFn: async (code: string) => {
       if (!signMessage) {
         throw new Error("Wallet does not support message signing");
       }
       
-      const message = `Claim gift vault with code: ${code.toUpperCase()}`;
+      const message = `Claim gift vault with code: ${normalizeCode(code)}`;
       const messageBytes = new TextEncoder().encode(message);
       const signatureBytes = await signMessage(messageBytes);
       const signatureBase64 = btoa(String.fromCharCode.apply(null, Array.from(signatureBytes)));
@@ -252,6 +301,37 @@ export default function GiftVaults() {
     },
   });
 
+  const reclaimMutation = useMutation({
+    mutationFn: async (vaultId: string) => {
+      if (!signMessage) {
+        throw new Error("Wallet does not support message signing");
+      }
+
+      const message = `Reclaim gift vault: ${vaultId}`;
+      const signatureBytes = await signMessage(new TextEncoder().encode(message));
+      const signatureBase64 = btoa(String.fromCharCode.apply(null, Array.from(signatureBytes)));
+
+      const response = await apiRequest("POST", `/api/gift-vaults/${vaultId}/reclaim`, {
+        signature: signatureBase64,
+      });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/gift-vaults/creator"] });
+      toast({
+        title: "Tokens Reclaimed",
+        description: `${data.amount} VEILRA returned to your wallet`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Reclaim Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const copyToClipboard = async (text: string) => {
     await navigator.clipboard.writeText(text);
     setCopiedCode(text);
@@ -268,6 +348,8 @@ export default function GiftVaults() {
         return <Badge variant="outline"><Check className="w-3 h-3 mr-1" />Claimed</Badge>;
       case "expired":
         return <Badge variant="destructive"><AlertCircle className="w-3 h-3 mr-1" />Expired</Badge>;
+      case "reclaimed":
+        return <Badge variant="outline"><Undo2 className="w-3 h-3 mr-1" />Reclaimed</Badge>;
       default:
         return <Badge variant="secondary">{status}</Badge>;
     }
@@ -297,7 +379,7 @@ export default function GiftVaults() {
             </CardContent>
           </Card>
         ) : (
-          <Tabs defaultValue="create" className="space-y-6">
+          <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
             <TabsList className="grid w-full grid-cols-2">
               <TabsTrigger value="create" data-testid="tab-create">Create Vault</TabsTrigger>
               <TabsTrigger value="claim" data-testid="tab-claim">Claim Tokens</TabsTrigger>
@@ -316,7 +398,7 @@ export default function GiftVaults() {
                     <div className="p-4 bg-muted rounded-lg">
                       <p className="text-sm text-muted-foreground mb-2">Your Gift Code</p>
                       <div className="flex items-center gap-2">
-                        <code className="flex-1 font-mono text-2xl font-bold tracking-wider">
+                        <code className="flex-1 font-mono text-lg font-bold break-words">
                           {createdVault.code}
                         </code>
                         <Button
@@ -334,6 +416,39 @@ export default function GiftVaults() {
                       </div>
                     </div>
 
+                    <div className="p-4 bg-muted rounded-lg space-y-3">
+                      <p className="text-sm text-muted-foreground">Share Link</p>
+                      <div className="flex justify-center">
+                        <div className="p-3 bg-white rounded-lg">
+                          <QRCodeSVG
+                            value={buildClaimLink(createdVault.code)}
+                            size={180}
+                            data-testid="qr-claim-link"
+                          />
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-2 bg-background rounded p-2">
+                        <code className="flex-1 font-mono text-xs break-all">
+                          {buildClaimLink(createdVault.code)}
+                        </code>
+                        <Button
+                          variant="outline"
+                          size="icon"
+                          onClick={() => copyToClipboard(buildClaimLink(createdVault.code))}
+                          data-testid="button-copy-link"
+                        >
+                          {copiedCode === buildClaimLink(createdVault.code) ? (
+                            <Check className="w-4 h-4" />
+                          ) : (
+                            <Copy className="w-4 h-4" />
+                          )}
+                        </Button>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        Anyone with this link or QR code can claim the vault once it is funded.
+                      </p>
+                    </div>
+
                     <div className="p-4 bg-primary/10 rounded-lg border border-primary/20 space-y-4">
                       <div>
                         <p className="text-sm font-medium mb-2">Step 1: Send {createdVault.amount} VEILRA tokens to:</p>
@@ -451,6 +566,51 @@ export default function GiftVaults() {
                           )}
                         />
 
+                        <FormField
+                          control={createForm.control}
+                          name="maxClaims"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Number of Claims</FormLabel>
+                              <FormControl>
+                                <Input
+                                  type="number"
+                                  min="1"
+                                  max="1000"
+                                  placeholder="1"
+                                  {...field}
+                                  data-testid="input-max-claims"
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+
+                        {Number(createForm.watch("maxClaims")) > 1 && (
+                          <FormField
+                            control={createForm.control}
+                            name="splitMode"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Split</FormLabel>
+                                <Select onValueChange={field.onChange} value={field.value}>
+                                  <FormControl>
+                                    <SelectTrigger data-testid="select-split-mode">
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                  </FormControl>
+                                  <SelectContent>
+                                    <SelectItem value="equal">Equal shares</SelectItem>
+                                    <SelectItem value="random">Random shares (lucky draw)</SelectItem>
+                                  </SelectContent>
+                                </Select>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        )}
+
                         <Button
                           type="submit"
                           className="w-full"
@@ -470,6 +630,19 @@ export default function GiftVaults() {
                 </Card>
               )}
 
+              {!isSignedIn && (
+                <Card className="shadow-sm">
+                  <CardContent className="flex flex-col items-center gap-4 py-6 text-center">
+                    <p className="text-sm text-muted-foreground">
+                      Sign a message with your wallet to see the gift vaults you created
+                    </p>
+                    <Button onClick={() => signIn()} disabled={isSigningIn} data-testid="button-wallet-sign-in">
+                      {isSigningIn ? "Waiting for signature..." : "Sign In With Wallet"}
+                    </Button>
+                  </CardContent>
+                </Card>
+              )}
+
               {myVaults && myVaults.length > 0 && (
                 <Card className="shadow-sm">
                   <CardHeader>
@@ -484,22 +657,15 @@ export default function GiftVaults() {
                           data-testid={`vault-${vault.id}`}
                         >
                           <div className="flex items-center justify-between">
+                            <code className="font-mono text-sm text-muted-foreground">
+                              #{vault.id.slice(0, 8)}
+                            </code>
                             <div className="flex items-center gap-3">
-                              <code className="font-mono text-sm font-bold">{vault.code}</code>
-                              <Button
-                                variant="ghost"
-                                size="icon"
-                                className="h-6 w-6"
-                                onClick={() => copyToClipboard(vault.code)}
-                              >
-                                {copiedCode === vault.code ? (
-                                  <Check className="w-3 h-3" />
-                                ) : (
-                                  <Copy className="w-3 h-3" />
-                                )}
-                              </Button>
-                            </div>
-                            <div className="flex items-center gap-3">
+                              {vault.maxClaims > 1 && (
+                                <span className="text-xs text-muted-foreground" data-testid={`text-claims-${vault.id}`}>
+                                  {vault.claimedCount}/{vault.maxClaims} claimed
+                                </span>
+                              )}
                               <span className="text-sm font-medium">{vault.amount} VEILRA</span>
                               {getStatusBadge(vault.status)}
                             </div>
@@ -551,6 +717,28 @@ export default function GiftVaults() {
                               )}
                             </div>
                           )}
+
+                          {vault.status === "expired" && vault.depositSignature && (
+                            <div className="pt-2 border-t flex items-center justify-between gap-2">
+                              <p className="text-xs text-muted-foreground">
+                                This vault expired unclaimed. Return the tokens to your wallet.
+                              </p>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => reclaimMutation.mutate(vault.id)}
+                                disabled={reclaimMutation.isPending}
+                                data-testid={`button-reclaim-${vault.id}`}
+                              >
+                                {reclaimMutation.isPending && reclaimMutation.variables === vault.id ? (
+                                  <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+                                ) : (
+                                  <Undo2 className="w-3 h-3 mr-1" />
+                                )}
+                                Reclaim
+                              </Button>
+                            </div>
+                          )}
                         </div>
                       ))}
                     </div>
@@ -584,11 +772,11 @@ export default function GiftVaults() {
                             <FormLabel>Gift Code</FormLabel>
                             <FormControl>
                               <Input
-                                placeholder="Enter your gift code"
-                                className="font-mono text-lg tracking-wider"
+                                placeholder="e.g. apple-river-stone-cloud-pencil-mirror"
+                                className="font-mono"
                                 {...field}
                                 onChange={(e) => {
-                                  field.onChange(e.target.value.toUpperCase());
+                                  field.onChange(e.target.value);
                                   setVaultPreview(null);
                                 }}
                                 data-testid="input-claim-code"
@@ -605,6 +793,14 @@ export default function GiftVaults() {
                             <span className="text-sm text-muted-foreground">Amount</span>
                             <span className="font-bold">{vaultPreview.amount} VEILRA</span>
                           </div>
+                          {vaultPreview.maxClaims > 1 && (
+                            <div className="flex items-center justify-between mb-2">
+                              <span className="text-sm text-muted-foreground">Claimed</span>
+                              <span className="text-sm font-medium">
+                                {vaultPreview.claimedCount}/{vaultPreview.maxClaims}
+                              </span>
+                            </div>
+                          )}
                           <div className="flex items-center justify-between">
                             <span className="text-sm text-muted-foreground">Status</span>
                             {getStatusBadge(vaultPreview.status)}
@@ -0,0 +1,147 @@
+CREATE TABLE "agent_matches" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"agent1_id" varchar NOT NULL,
+	"agent2_id" varchar NOT NULL,
+	"winner_id" varchar,
+	"match_type" text DEFAULT 'knowledge_trade' NOT NULL,
+	"knowledge_exchanged" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"completed_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "agents" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"persona" text NOT NULL,
+	"elo_rating" integer DEFAULT 1000 NOT NULL,
+	"total_matches" integer DEFAULT 0 NOT NULL,
+	"wins" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "battle_portfolios" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"battle_id" varchar NOT NULL,
+	"agent_id" varchar NOT NULL,
+	"cash_balance" numeric(20, 8) NOT NULL,
+	"asset_balance" numeric(28, 12) DEFAULT '0' NOT NULL,
+	"last_price" numeric(20, 8) DEFAULT '0' NOT NULL,
+	"total_value" numeric(20, 8) NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "battle_rounds" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"battle_id" varchar NOT NULL,
+	"round_number" integer NOT NULL,
+	"asset_price" numeric(20, 8) NOT NULL,
+	"agent1_total_value" numeric(20, 8) NOT NULL,
+	"agent2_total_value" numeric(20, 8) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "battle_trades" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"battle_id" varchar NOT NULL,
+	"agent_id" varchar NOT NULL,
+	"trade_type" text NOT NULL,
+	"asset_amount" numeric(28, 12) NOT NULL,
+	"price" numeric(20, 8) NOT NULL,
+	"cash_amount" numeric(20, 8) NOT NULL,
+	"reasoning" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "knowledge_edges" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"source_node_id" varchar NOT NULL,
+	"target_node_id" varchar NOT NULL,
+	"relation_type" text NOT NULL,
+	"weight" real DEFAULT 1 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "knowledge_nodes" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"agent_id" varchar NOT NULL,
+	"topic" text NOT NULL,
+	"content" text NOT NULL,
+	"confidence" real DEFAULT 0.5 NOT NULL,
+	"chain_scope" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "mixer_sessions" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"chain" text DEFAULT 'solana' NOT NULL,
+	"sender_address" text NOT NULL,
+	"recipient_address" text NOT NULL,
+	"amount" numeric(20, 9) NOT NULL,
+	"deposit_signature" text,
+	"payout_signature" text,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"deposit_confirmed_at" timestamp,
+	"payout_sent_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "trading_battles" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"agent1_id" varchar NOT NULL,
+	"agent2_id" varchar NOT NULL,
+	"winner_id" varchar,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"starting_balance" numeric(20, 8) DEFAULT '10000' NOT NULL,
+	"duration_hours" integer DEFAULT 12 NOT NULL,
+	"base_asset" text DEFAULT 'bitcoin' NOT NULL,
+	"quote_asset" text DEFAULT 'usd' NOT NULL,
+	"initial_price" numeric(20, 8),
+	"agent1_final_balance" numeric(20, 8),
+	"agent2_final_balance" numeric(20, 8),
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"started_at" timestamp,
+	"ends_at" timestamp,
+	"completed_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "transactions" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"signature" text NOT NULL,
+	"from_address" text NOT NULL,
+	"to_address" text NOT NULL,
+	"amount" numeric(20, 9) NOT NULL,
+	"fee" numeric(20, 9),
+	"status" text DEFAULT 'pending' NOT NULL,
+	"timestamp" timestamp DEFAULT now() NOT NULL,
+	"block_time" integer,
+	CONSTRAINT "transactions_signature_unique" UNIQUE("signature")
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
+--> statement-breakpoint
+ALTER TABLE "agent_matches" ADD CONSTRAINT "agent_matches_agent1_id_agents_id_fk" FOREIGN KEY ("agent1_id") REFERENCES "public"."agents"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "agent_matches" ADD CONSTRAINT "agent_matches_agent2_id_agents_id_fk" FOREIGN KEY ("agent2_id") REFERENCES "public"."agents"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "agent_matches" ADD CONSTRAINT "agent_matches_winner_id_agents_id_fk" FOREIGN KEY ("winner_id") REFERENCES "public"."agents"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "battle_portfolios" ADD CONSTRAINT "battle_portfolios_battle_id_trading_battles_id_fk" FOREIGN KEY ("battle_id") REFERENCES "public"."trading_battles"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "battle_portfolios" ADD CONSTRAINT "battle_portfolios_agent_id_agents_id_fk" FOREIGN KEY ("agent_id") REFERENCES "public"."agents"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "battle_rounds" ADD CONSTRAINT "battle_rounds_battle_id_trading_battles_id_fk" FOREIGN KEY ("battle_id") REFERENCES "public"."trading_battles"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "battle_trades" ADD CONSTRAINT "battle_trades_battle_id_trading_battles_id_fk" FOREIGN KEY ("battle_id") REFERENCES "public"."trading_battles"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "battle_trades" ADD CONSTRAINT "battle_trades_agent_id_agents_id_fk" FOREIGN KEY ("agent_id") REFERENCES "public"."agents"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "knowledge_edges" ADD CONSTRAINT "knowledge_edges_source_node_id_knowledge_nodes_id_fk" FOREIGN KEY ("source_node_id") REFERENCES "public"."knowledge_nodes"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "knowledge_edges" ADD CONSTRAINT "knowledge_edges_target_node_id_knowledge_nodes_id_fk" FOREIGN KEY ("target_node_id") REFERENCES "public"."knowledge_nodes"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "knowledge_nodes" ADD CONSTRAINT "knowledge_nodes_agent_id_agents_id_fk" FOREIGN KEY ("agent_id") REFERENCES "public"."agents"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "trading_battles" ADD CONSTRAINT "trading_battles_agent1_id_agents_id_fk" FOREIGN KEY ("agent1_id") REFERENCES "public"."agents"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "trading_battles" ADD CONSTRAINT "trading_battles_agent2_id_agents_id_fk" FOREIGN KEY ("agent2_id") REFERENCES "public"."agents"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "trading_battles" ADD CONSTRAINT "trading_battles_winner_id_agents_id_fk" FOREIGN KEY ("winner_id") REFERENCES "public"."agents"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "battle_portfolios_battle_agent_idx" ON "battle_portfolios" USING btree ("battle_id","agent_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "battle_rounds_battle_round_idx" ON "battle_rounds" USING btree ("battle_id","round_number");--> statement-breakpoint
+CREATE INDEX "battle_trades_battle_id_idx" ON "battle_trades" USING btree ("battle_id");--> statement-breakpoint
+CREATE INDEX "knowledge_edges_source_node_id_idx" ON "knowledge_edges" USING btree ("source_node_id");--> statement-breakpoint
+CREATE INDEX "knowledge_edges_target_node_id_idx" ON "knowledge_edges" USING btree ("target_node_id");--> statement-breakpoint
+CREATE INDEX "knowledge_nodes_agent_id_idx" ON "knowledge_nodes" USING btree ("agent_id");--> statement-breakpoint
+CREATE INDEX "trading_battles_status_idx" ON "trading_battles" USING btree ("status");
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE "mixer_payout_attempts" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"session_id" varchar NOT NULL,
+	"attempt_number" integer NOT NULL,
+	"status" text DEFAULT 'started' NOT NULL,
+	"payout_signature" text,
+	"error" text,
+	"started_at" timestamp DEFAULT now() NOT NULL,
+	"finished_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "mixer_sessions" ADD COLUMN "payout_attempts" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "mixer_sessions" ADD COLUMN "next_payout_attempt_at" timestamp;--> statement-breakpoint
+ALTER TABLE "mixer_sessions" ADD COLUMN "last_payout_error" text;--> statement-breakpoint
+ALTER TABLE "mixer_payout_attempts" ADD CONSTRAINT "mixer_payout_attempts_session_id_mixer_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."mixer_sessions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "mixer_payout_attempts_session_id_idx" ON "mixer_payout_attempts" USING btree ("session_id");--> statement-breakpoint
+CREATE INDEX "mixer_sessions_status_idx" ON "mixer_sessions" USING btree ("status");
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE "idempotency_keys" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"key" text NOT NULL,
+	"scope" text NOT NULL,
+	"request_hash" text NOT NULL,
+	"response_status" integer,
+	"response_body" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"completed_at" timestamp
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "idempotency_keys_key_scope_idx" ON "idempotency_keys" USING btree ("key","scope");--> statement-breakpoint
+ALTER TABLE "mixer_sessions" ADD CONSTRAINT "mixer_sessions_deposit_signature_unique" UNIQUE("deposit_signature");
\ No newline at end of file
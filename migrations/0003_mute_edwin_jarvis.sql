@@ -0,0 +1 @@
+ALTER TABLE "mixer_sessions" ADD COLUMN "network_fee" numeric(38, 18);
\ No newline at end of file
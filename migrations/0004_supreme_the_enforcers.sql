@@ -0,0 +1,16 @@
+CREATE TABLE "mixer_quotes" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"chain" text NOT NULL,
+	"amount" numeric(38, 18) NOT NULL,
+	"service_fee" numeric(38, 18) NOT NULL,
+	"network_fee" numeric(38, 18) NOT NULL,
+	"payout_amount" numeric(38, 18) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"redeemed_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "mixer_sessions" ADD COLUMN "quote_id" varchar;--> statement-breakpoint
+ALTER TABLE "mixer_sessions" ADD COLUMN "service_fee" numeric(38, 18);--> statement-breakpoint
+ALTER TABLE "mixer_sessions" ADD COLUMN "payout_amount" numeric(38, 18);--> statement-breakpoint
+ALTER TABLE "mixer_sessions" ADD CONSTRAINT "mixer_sessions_quote_id_mixer_quotes_id_fk" FOREIGN KEY ("quote_id") REFERENCES "public"."mixer_quotes"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
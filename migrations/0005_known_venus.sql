@@ -0,0 +1,2 @@
+ALTER TABLE "mixer_quotes" ADD COLUMN "token_mint" text;--> statement-breakpoint
+ALTER TABLE "mixer_sessions" ADD COLUMN "token_mint" text;
\ No newline at end of file
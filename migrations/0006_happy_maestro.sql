@@ -0,0 +1,6 @@
+ALTER TABLE "mixer_sessions" ADD COLUMN "expires_at" timestamp DEFAULT now() + interval '30 minutes' NOT NULL;--> statement-breakpoint
+ALTER TABLE "mixer_sessions" ADD COLUMN "refund_amount" numeric(38, 18);--> statement-breakpoint
+ALTER TABLE "mixer_sessions" ADD COLUMN "refund_reason" text;--> statement-breakpoint
+ALTER TABLE "mixer_sessions" ADD COLUMN "refund_signature" text;--> statement-breakpoint
+ALTER TABLE "mixer_sessions" ADD COLUMN "refund_error" text;--> statement-breakpoint
+ALTER TABLE "mixer_sessions" ADD COLUMN "refunded_at" timestamp;
\ No newline at end of file
@@ -0,0 +1,27 @@
+CREATE TABLE "denied_addresses" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"address" text NOT NULL,
+	"chain" text,
+	"action" text DEFAULT 'deny' NOT NULL,
+	"reason" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "denied_addresses_address_unique" UNIQUE("address")
+);
+--> statement-breakpoint
+CREATE TABLE "screening_decisions" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"context" text NOT NULL,
+	"subject_id" varchar,
+	"chain" text NOT NULL,
+	"address" text NOT NULL,
+	"role" text NOT NULL,
+	"decision" text NOT NULL,
+	"list" text,
+	"reason" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "mixer_sessions" ADD COLUMN "screening_status" text DEFAULT 'clear' NOT NULL;--> statement-breakpoint
+ALTER TABLE "mixer_sessions" ADD COLUMN "review_reason" text;--> statement-breakpoint
+CREATE INDEX "screening_decisions_subject_idx" ON "screening_decisions" USING btree ("subject_id");--> statement-breakpoint
+CREATE INDEX "screening_decisions_address_idx" ON "screening_decisions" USING btree ("address");
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE "ledger_entries" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"journal_id" varchar NOT NULL,
+	"account" text NOT NULL,
+	"side" text NOT NULL,
+	"amount" numeric(38, 18) NOT NULL,
+	"chain" text NOT NULL,
+	"token_mint" text,
+	"subject_id" varchar,
+	"reference" text,
+	"memo" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "ledger_entries_journal_idx" ON "ledger_entries" USING btree ("journal_id");--> statement-breakpoint
+CREATE INDEX "ledger_entries_account_idx" ON "ledger_entries" USING btree ("account","chain","token_mint");--> statement-breakpoint
+CREATE INDEX "ledger_entries_subject_idx" ON "ledger_entries" USING btree ("subject_id");
\ No newline at end of file
@@ -0,0 +1,22 @@
+CREATE TABLE "gift_vaults" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"chain" text DEFAULT 'solana' NOT NULL,
+	"creator_address" text NOT NULL,
+	"code_hash" text NOT NULL,
+	"token_mint" text NOT NULL,
+	"amount" numeric(38, 18) NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"deposit_signature" text,
+	"claimer_address" text,
+	"claim_signature" text,
+	"claim_error" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"funded_at" timestamp,
+	"claimed_at" timestamp,
+	"expires_at" timestamp NOT NULL,
+	CONSTRAINT "gift_vaults_code_hash_unique" UNIQUE("code_hash"),
+	CONSTRAINT "gift_vaults_deposit_signature_unique" UNIQUE("deposit_signature")
+);
+--> statement-breakpoint
+CREATE INDEX "gift_vaults_creator_idx" ON "gift_vaults" USING btree ("creator_address");--> statement-breakpoint
+CREATE INDEX "gift_vaults_status_idx" ON "gift_vaults" USING btree ("status");
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "gift_vaults" ADD COLUMN "reclaim_signature" text;--> statement-breakpoint
+ALTER TABLE "gift_vaults" ADD COLUMN "reclaim_error" text;--> statement-breakpoint
+ALTER TABLE "gift_vaults" ADD COLUMN "reclaimed_at" timestamp;
\ No newline at end of file
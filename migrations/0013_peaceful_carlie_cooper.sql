@@ -0,0 +1,24 @@
+CREATE TABLE "gift_vault_claims" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"vault_id" varchar NOT NULL,
+	"claimer_address" text NOT NULL,
+	"amount" numeric(38, 18) NOT NULL,
+	"status" text DEFAULT 'claiming' NOT NULL,
+	"payout_signature" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"claimed_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "gift_vaults" ADD COLUMN "max_claims" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "gift_vaults" ADD COLUMN "split_mode" text DEFAULT 'equal' NOT NULL;--> statement-breakpoint
+ALTER TABLE "gift_vaults" ADD COLUMN "claimed_count" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "gift_vaults" ADD COLUMN "claimed_amount" numeric(38, 18) DEFAULT '0' NOT NULL;--> statement-breakpoint
+ALTER TABLE "gift_vaults" ADD COLUMN "reclaim_amount" numeric(38, 18);--> statement-breakpoint
+ALTER TABLE "gift_vault_claims" ADD CONSTRAINT "gift_vault_claims_vault_id_gift_vaults_id_fk" FOREIGN KEY ("vault_id") REFERENCES "public"."gift_vaults"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "gift_vault_claims_vault_claimer_idx" ON "gift_vault_claims" USING btree ("vault_id","claimer_address");--> statement-breakpoint
+INSERT INTO "gift_vault_claims" ("vault_id", "claimer_address", "amount", "status", "payout_signature", "claimed_at") SELECT "id", "claimer_address", "amount", "status", "claim_signature", "claimed_at" FROM "gift_vaults" WHERE "claimer_address" IS NOT NULL AND "status" IN ('claiming', 'claimed');--> statement-breakpoint
+UPDATE "gift_vaults" SET "claimed_count" = 1, "claimed_amount" = "amount" WHERE "claimer_address" IS NOT NULL AND "status" IN ('claiming', 'claimed');--> statement-breakpoint
+UPDATE "gift_vaults" SET "status" = 'claimed' WHERE "status" = 'claiming';--> statement-breakpoint
+ALTER TABLE "gift_vaults" DROP COLUMN "claimer_address";--> statement-breakpoint
+ALTER TABLE "gift_vaults" DROP COLUMN "claim_signature";--> statement-breakpoint
+ALTER TABLE "gift_vaults" DROP COLUMN "claim_error";
\ No newline at end of file
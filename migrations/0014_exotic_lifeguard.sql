@@ -0,0 +1,17 @@
+CREATE TABLE "gift_vault_code_failures" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"action" text NOT NULL,
+	"ip_address" text NOT NULL,
+	"wallet_address" text,
+	"status" integer NOT NULL,
+	"reason" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "gift_vaults" DROP CONSTRAINT "gift_vaults_code_hash_unique";--> statement-breakpoint
+ALTER TABLE "gift_vaults" ADD COLUMN "code_lookup" text;--> statement-breakpoint
+UPDATE "gift_vaults" SET "code_lookup" = "code_hash";--> statement-breakpoint
+ALTER TABLE "gift_vaults" ALTER COLUMN "code_lookup" SET NOT NULL;--> statement-breakpoint
+CREATE INDEX "gift_vault_code_failures_ip_idx" ON "gift_vault_code_failures" USING btree ("ip_address","created_at");--> statement-breakpoint
+CREATE INDEX "gift_vault_code_failures_wallet_idx" ON "gift_vault_code_failures" USING btree ("wallet_address","created_at");--> statement-breakpoint
+ALTER TABLE "gift_vaults" ADD CONSTRAINT "gift_vaults_code_lookup_unique" UNIQUE("code_lookup");
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "mixer_payout_attempts" ADD COLUMN "amount" numeric(38, 18);--> statement-breakpoint
+ALTER TABLE "mixer_payout_attempts" ADD COLUMN "raw_transaction" text;--> statement-breakpoint
+UPDATE "mixer_payout_attempts" SET "status" = 'unknown' WHERE "status" = 'started';
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "mixer_sessions" ADD COLUMN "refund_transaction" text;--> statement-breakpoint
+ALTER TABLE "mixer_sessions" ADD COLUMN "refund_attempts" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+UPDATE "mixer_sessions" SET "status" = 'refund_failed', "refund_error" = 'Refund was in flight during an upgrade; check the chain before resending' WHERE "status" = 'refund_processing';
\ No newline at end of file
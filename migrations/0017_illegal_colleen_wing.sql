@@ -0,0 +1,2 @@
+ALTER TABLE "gift_vault_claims" ADD COLUMN "payout_transaction" text;--> statement-breakpoint
+ALTER TABLE "gift_vaults" ADD COLUMN "reclaim_transaction" text;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "gift_vaults" ADD COLUMN "reclaim_started_at" timestamp;--> statement-breakpoint
+UPDATE "gift_vault_claims" SET "status" = 'review' WHERE "status" = 'claiming' AND "payout_transaction" IS NULL;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "mixer_sessions" ALTER COLUMN "amount" SET DATA TYPE numeric(38, 18);
\ No newline at end of file
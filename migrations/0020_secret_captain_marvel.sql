@@ -0,0 +1,5 @@
+CREATE TABLE "deposit_scan_cursors" (
+	"chain" text PRIMARY KEY NOT NULL,
+	"cursor" text NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
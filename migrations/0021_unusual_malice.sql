@@ -0,0 +1,8 @@
+-- connect-pg-simple used to create this table at runtime, so it may already exist.
+CREATE TABLE IF NOT EXISTS "session" (
+	"sid" varchar PRIMARY KEY NOT NULL,
+	"sess" json NOT NULL,
+	"expire" timestamp (6) NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "IDX_session_expire" ON "session" USING btree ("expire");
\ No newline at end of file
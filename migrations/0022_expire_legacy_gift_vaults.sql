@@ -0,0 +1,5 @@
+-- Vaults created before 0014 had their unkeyed SHA-256 code_hash copied into code_lookup, which the
+-- keyed lookup never produces, so their codes can no longer be claimed. Rather than keep a second,
+-- weaker lookup path alive, they are expired now: the sweeper returns funded ones to the creator,
+-- who can also reclaim them directly.
+UPDATE "gift_vaults" SET "expires_at" = now() WHERE "code_lookup" = "code_hash" AND "status" IN ('pending', 'funded') AND "expires_at" > now();
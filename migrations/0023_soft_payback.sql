@@ -0,0 +1,4 @@
+ALTER TABLE "gift_vault_claims" ADD COLUMN "payout_last_valid_block_height" bigint;--> statement-breakpoint
+ALTER TABLE "gift_vaults" ADD COLUMN "reclaim_last_valid_block_height" bigint;--> statement-breakpoint
+ALTER TABLE "mixer_payout_attempts" ADD COLUMN "last_valid_block_height" bigint;--> statement-breakpoint
+ALTER TABLE "mixer_sessions" ADD COLUMN "refund_last_valid_block_height" bigint;
\ No newline at end of file
@@ -0,0 +1,3 @@
+-- Stored responses for vault creation held the plaintext claim code; that route no longer takes an
+-- Idempotency-Key, so they are dropped rather than kept around.
+DELETE FROM "idempotency_keys" WHERE "scope" = 'POST /api/gift-vaults';
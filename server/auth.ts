@@ -0,0 +1,187 @@
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import type { Express, Request, Response, NextFunction } from "express";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { z } from "zod";
+import { storage } from "./storage";
+import { pool } from "./db";
+import { rateLimit } from "./middleware/rateLimit";
+import { logger } from "./logger";
+import { insertUserSchema, userRoles, type User as SelectUser, type UserRole } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+const log = logger.child({ component: "auth" });
+const scryptAsync = promisify(scrypt);
+const SESSION_MAX_AGE_MS = 12 * 60 * 60 * 1000; // 12 hours
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+export async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) return false;
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return hashedBuf.length === suppliedBuf.length && timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+function toPublicUser(user: SelectUser) {
+  return { id: user.id, username: user.username, role: user.role, createdAt: user.createdAt };
+}
+
+// Roles are ordered: each role can do everything the ones before it can.
+export function hasRole(user: Express.User | undefined, role: UserRole): boolean {
+  if (!user) return false;
+  return userRoles.indexOf(user.role as UserRole) >= userRoles.indexOf(role);
+}
+
+export function requireRole(role: UserRole) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    if (!hasRole(req.user, role)) {
+      return res.status(403).json({ error: "Insufficient permissions" });
+    }
+    next();
+  };
+}
+
+// Creates the first admin from ADMIN_USERNAME/ADMIN_PASSWORD when no accounts exist yet.
+async function bootstrapAdmin(): Promise<void> {
+  const username = process.env.ADMIN_USERNAME;
+  const password = process.env.ADMIN_PASSWORD;
+  if (!username || !password) return;
+
+  if ((await storage.countUsers()) > 0) return;
+
+  await storage.createUser({ username, password: await hashPassword(password), role: "admin" });
+  log.info("Bootstrapped admin account", { username });
+}
+
+const createUserSchema = insertUserSchema.extend({
+  username: z.string().min(3).max(64),
+  password: z.string().min(12),
+  role: z.enum(userRoles),
+});
+
+export async function setupAuth(app: Express): Promise<void> {
+  const sessionSecret = process.env.SESSION_SECRET;
+  if (!sessionSecret && process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+
+  const PostgresSessionStore = connectPg(session);
+
+  app.set("trust proxy", 1);
+  app.use(
+    session({
+      store: new PostgresSessionStore({ pool }),
+      secret: sessionSecret || randomBytes(32).toString("hex"),
+      resave: false,
+      saveUninitialized: false,
+      cookie: {
+        httpOnly: true,
+        sameSite: "lax",
+        secure: process.env.NODE_ENV === "production",
+        maxAge: SESSION_MAX_AGE_MS,
+      },
+    })
+  );
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !(await comparePasswords(password, user.password))) {
+          return done(null, false);
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    })
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user || false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  try {
+    await bootstrapAdmin();
+  } catch (error) {
+    log.error("Failed to bootstrap admin account", { error });
+  }
+
+  app.post("/api/auth/login", rateLimit("auth"), (req, res, next) => {
+    passport.authenticate("local", (err: unknown, user: SelectUser | false) => {
+      if (err) return next(err);
+      if (!user) {
+        return res.status(401).json({ error: "Invalid username or password" });
+      }
+      // Regenerate to avoid carrying a pre-login session id into the authenticated session.
+      req.session.regenerate((regenerateErr) => {
+        if (regenerateErr) return next(regenerateErr);
+        req.login(user, (loginErr) => {
+          if (loginErr) return next(loginErr);
+          res.json(toPublicUser(user));
+        });
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/auth/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      res.sendStatus(204);
+    });
+  });
+
+  app.get("/api/auth/me", (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    res.json(toPublicUser(req.user));
+  });
+
+  app.post("/api/admin/users", requireRole("admin"), async (req, res) => {
+    try {
+      const parsed = createUserSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid user", details: parsed.error.errors });
+      }
+
+      if (await storage.getUserByUsername(parsed.data.username)) {
+        return res.status(409).json({ error: "Username already exists" });
+      }
+
+      const user = await storage.createUser({
+        ...parsed.data,
+        password: await hashPassword(parsed.data.password),
+      });
+      res.status(201).json(toPublicUser(user));
+    } catch (error) {
+      log.error("Error creating user", { error });
+      res.status(500).json({ error: "Failed to create user" });
+    }
+  });
+}
@@ -0,0 +1,492 @@
+import { ethers } from "ethers";
+import { logger, redactUrl } from "../logger";
+import { observeRpc } from "../metrics";
+import type {
+  ChainAdapter,
+  ChainBalance,
+  ChainHead,
+  DepositScan,
+  DepositVerification,
+  FeeEstimate,
+  FeePolicy,
+  IncomingTransfer,
+  PayoutResult,
+  PayoutSignedCallback,
+  PayoutStatus,
+  SignedPayout,
+  TokenConfig,
+} from "./types";
+
+const log = logger.child({ component: "EvmAdapter" });
+
+const NATIVE_TRANSFER_GAS_LIMIT = BigInt(21000);
+const DEPOSIT_CONFIRMATIONS = 12;
+const DEFAULT_MAX_TRANSACTION_AGE_SECONDS = 24 * 60 * 60;
+const MAX_BLOCKS_PER_SCAN = 50;
+const ERC20_ABI = [
+  "event Transfer(address indexed from, address indexed to, uint256 value)",
+  "function transfer(address to, uint256 value) returns (bool)",
+  "function balanceOf(address owner) view returns (uint256)",
+];
+const erc20Interface = new ethers.Interface(ERC20_ABI);
+const TRANSFER_TOPIC = erc20Interface.getEvent("Transfer")!.topicHash;
+
+interface PayoutFeeParams {
+  gasLimit: bigint;
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+}
+
+export interface EvmChainConfig {
+  id: string;
+  chainId: number;
+  name: string;
+  aliases: string[];
+  nativeSymbol: string;
+  rpcUrl: string;
+  poolPrivateKey?: string;
+  poolPrivateKeyName: string;
+  explorerUrl: string;
+  lowBalanceThreshold: string;
+  feePolicy: FeePolicy;
+  tokens: TokenConfig[];
+  maxTransactionAgeSeconds?: number;
+}
+
+export class EvmChainAdapter implements ChainAdapter {
+  readonly id: string;
+  readonly family = "evm";
+  readonly chainId: string;
+  readonly name: string;
+  readonly aliases: string[];
+  readonly nativeSymbol: string;
+  readonly decimals = 18;
+  readonly rpcUrl: string;
+  readonly feePolicy: FeePolicy;
+  readonly tokens: TokenConfig[];
+  readonly lowBalanceThreshold: string;
+  readonly provider: ethers.JsonRpcProvider;
+  private readonly maxTransactionAgeSeconds: number;
+
+  private poolWallet: ethers.Wallet | null = null;
+  private poolAddress: string | null = null;
+
+  constructor(private readonly config: EvmChainConfig) {
+    this.id = config.id;
+    this.chainId = config.chainId.toString();
+    this.name = config.name;
+    this.aliases = config.aliases;
+    this.nativeSymbol = config.nativeSymbol;
+    this.rpcUrl = config.rpcUrl;
+    this.feePolicy = config.feePolicy;
+    this.tokens = config.tokens;
+    this.lowBalanceThreshold = config.lowBalanceThreshold;
+    this.maxTransactionAgeSeconds = config.maxTransactionAgeSeconds ?? DEFAULT_MAX_TRANSACTION_AGE_SECONDS;
+    const request = new ethers.FetchRequest(config.rpcUrl);
+    const getUrl = ethers.FetchRequest.createGetUrlFunc();
+    request.getUrlFunc = (req, signal) => observeRpc(config.id, req.body, () => getUrl(req, signal));
+    this.provider = new ethers.JsonRpcProvider(request);
+    log.info("RPC connected", { chain: config.id, rpc: redactUrl(config.rpcUrl) });
+    this.initializePoolWallet();
+  }
+
+  private initializePoolWallet() {
+    if (this.poolWallet) return;
+
+    const privateKey = this.config.poolPrivateKey;
+    if (privateKey) {
+      try {
+        this.poolWallet = new ethers.Wallet(privateKey, this.provider);
+        this.poolAddress = this.poolWallet.address;
+        log.info("Pool wallet initialized", { chain: this.id, poolAddress: this.poolAddress });
+      } catch (error) {
+        log.error("Failed to initialize pool wallet", { chain: this.id, error });
+      }
+    } else {
+      log.warn(`${this.config.poolPrivateKeyName} not set - ${this.nativeSymbol} mixer functionality disabled`, { chain: this.id });
+    }
+  }
+
+  getPoolAddress(): string | null {
+    if (!this.poolAddress) {
+      this.initializePoolWallet();
+    }
+    return this.poolAddress;
+  }
+
+  getToken(address: string): TokenConfig | undefined {
+    return this.tokens.find((token) => token.address.toLowerCase() === address.toLowerCase());
+  }
+
+  isValidAddress(address: string): boolean {
+    return ethers.isAddress(address);
+  }
+
+  verifySignedMessage(message: string, signature: string, address: string): boolean {
+    try {
+      return ethers.verifyMessage(message, signature).toLowerCase() === address.toLowerCase();
+    } catch {
+      return false;
+    }
+  }
+
+  async getBalance(address: string): Promise<ChainBalance> {
+    const weiBalance = await this.provider.getBalance(address);
+    return { balance: parseFloat(ethers.formatEther(weiBalance)), wei: weiBalance.toString() };
+  }
+
+  async getPoolBalance(token?: TokenConfig): Promise<bigint> {
+    const poolAddress = this.getPoolAddress();
+    if (!poolAddress) {
+      throw new Error(`${this.nativeSymbol} Pool wallet not initialized`);
+    }
+
+    if (!token) {
+      return this.provider.getBalance(poolAddress);
+    }
+
+    const contract = new ethers.Contract(token.address, ERC20_ABI, this.provider);
+    return contract.balanceOf(poolAddress);
+  }
+
+  async getChainHead(): Promise<ChainHead> {
+    const block = await this.provider.getBlock("latest");
+    if (!block) {
+      throw new Error(`${this.nativeSymbol} RPC returned no latest block`);
+    }
+    return { height: block.number, timestamp: block.timestamp };
+  }
+
+  async verifyDeposit(
+    txHash: string,
+    fromAddress: string,
+    toAddress: string,
+    amount: string,
+    token?: TokenConfig
+  ): Promise<DepositVerification> {
+    if (token) {
+      return this.verifyTokenDeposit(txHash, fromAddress, toAddress, amount, token);
+    }
+
+    try {
+      const tx = await this.provider.getTransaction(txHash);
+      if (!tx) {
+        return { valid: false, error: "Transaction not found on chain" };
+      }
+
+      const { receipt, error } = await this.getConfirmedReceipt(txHash);
+      if (!receipt) {
+        return { valid: false, error };
+      }
+
+      if (fromAddress !== "pending" && tx.from.toLowerCase() !== fromAddress.toLowerCase()) {
+        return { valid: false, error: "Sender address mismatch" };
+      }
+
+      if (tx.to?.toLowerCase() !== toAddress.toLowerCase()) {
+        return { valid: false, error: "Recipient address mismatch" };
+      }
+
+      const expectedWei = ethers.parseEther(amount);
+      const tolerance = ethers.parseEther("0.0001");
+      const diff = tx.value > expectedWei ? tx.value - expectedWei : expectedWei - tx.value;
+      if (diff > tolerance) {
+        return { valid: false, error: "Amount mismatch", actualSender: tx.from };
+      }
+
+      return { valid: true, actualSender: tx.from };
+    } catch (error) {
+      log.error("Error verifying transaction", { chain: this.id, signature: txHash, error });
+      return { valid: false, error: "Failed to verify transaction on chain" };
+    }
+  }
+
+  // Only successful, recent transactions at least DEPOSIT_CONFIRMATIONS deep are accepted as deposits,
+  // the same depth the watcher waits for, so a deposit that is reorged out can't trigger a payout.
+  private async getConfirmedReceipt(
+    txHash: string
+  ): Promise<{ receipt?: ethers.TransactionReceipt; error?: string }> {
+    const receipt = await this.provider.getTransactionReceipt(txHash);
+    if (!receipt) {
+      return { error: "Transaction not found on chain" };
+    }
+
+    if (receipt.status === 0) {
+      return { error: "Transaction failed on chain" };
+    }
+
+    const head = await this.provider.getBlockNumber();
+    if (receipt.blockNumber > head - DEPOSIT_CONFIRMATIONS) {
+      return { error: `Transaction not yet confirmed; wait for ${DEPOSIT_CONFIRMATIONS} confirmations` };
+    }
+
+    const block = await this.provider.getBlock(receipt.blockNumber);
+    if (!block) {
+      return { error: "Transaction block unavailable" };
+    }
+
+    const ageSeconds = Date.now() / 1000 - block.timestamp;
+    if (ageSeconds > this.maxTransactionAgeSeconds) {
+      return { error: "Transaction is too old" };
+    }
+
+    return { receipt };
+  }
+
+  // Sums the token's Transfer events into the pool; the outer transaction may target a router.
+  private async verifyTokenDeposit(
+    txHash: string,
+    fromAddress: string,
+    toAddress: string,
+    amount: string,
+    token: TokenConfig
+  ): Promise<DepositVerification> {
+    try {
+      const { receipt, error } = await this.getConfirmedReceipt(txHash);
+      if (!receipt) {
+        return { valid: false, error };
+      }
+
+      const expectedUnits = ethers.parseUnits(amount, token.decimals);
+      let actualSender: string | undefined;
+      let transferredUnits = BigInt(0);
+
+      for (const log of receipt.logs) {
+        if (log.address.toLowerCase() !== token.address.toLowerCase()) continue;
+
+        const parsed = erc20Interface.parseLog({ topics: [...log.topics], data: log.data });
+        if (!parsed || parsed.name !== "Transfer") continue;
+
+        const [from, to, value] = parsed.args as unknown as [string, string, bigint];
+        if (to.toLowerCase() !== toAddress.toLowerCase()) continue;
+        if (fromAddress !== "pending" && from.toLowerCase() !== fromAddress.toLowerCase()) continue;
+
+        actualSender = from;
+        transferredUnits += value;
+      }
+
+      if (!actualSender) {
+        return { valid: false, error: "No token transfer to the pool found" };
+      }
+
+      if (transferredUnits !== expectedUnits) {
+        return { valid: false, error: "Amount mismatch", actualSender };
+      }
+
+      return { valid: true, actualSender };
+    } catch (error) {
+      log.error("Error verifying token transaction", { chain: this.id, token: token.symbol, signature: txHash, error });
+      return { valid: false, error: "Failed to verify transaction on chain" };
+    }
+  }
+
+  // Block polling: walks confirmed blocks after the cursor (the last scanned block number) looking for
+  // native transfers and allow-listed token Transfer logs into the pool.
+  async scanDeposits(cursor: string | null): Promise<DepositScan> {
+    const poolAddress = this.getPoolAddress();
+    if (!poolAddress) {
+      return { transfers: [], cursor };
+    }
+
+    const confirmedBlock = (await this.provider.getBlockNumber()) - DEPOSIT_CONFIRMATIONS;
+    const fromBlock = cursor ? Number(cursor) + 1 : Math.max(confirmedBlock - MAX_BLOCKS_PER_SCAN + 1, 0);
+    const toBlock = Math.min(confirmedBlock, fromBlock + MAX_BLOCKS_PER_SCAN - 1);
+    if (toBlock < fromBlock) {
+      return { transfers: [], cursor };
+    }
+
+    const totals = new Map<string, IncomingTransfer>();
+    const add = (transfer: IncomingTransfer) => {
+      const key = `${transfer.signature}:${transfer.from.toLowerCase()}:${transfer.tokenAddress ?? ""}`;
+      const existing = totals.get(key);
+      if (existing) {
+        existing.amount += transfer.amount;
+      } else {
+        totals.set(key, transfer);
+      }
+    };
+
+    // A block the node can't return yet ends the scan there, so the next scan starts from it.
+    let scannedTo = fromBlock - 1;
+    for (let blockNumber = fromBlock; blockNumber <= toBlock; blockNumber++) {
+      const block = await this.provider.getBlock(blockNumber, true);
+      if (!block) break;
+      scannedTo = blockNumber;
+
+      for (const tx of block.prefetchedTransactions) {
+        if (tx.value > BigInt(0) && tx.to?.toLowerCase() === poolAddress.toLowerCase()) {
+          add({ signature: tx.hash, from: tx.from, amount: tx.value });
+        }
+      }
+    }
+
+    if (scannedTo < fromBlock) {
+      return { transfers: [], cursor };
+    }
+
+    if (this.tokens.length > 0) {
+      const logs = await this.provider.getLogs({
+        address: this.tokens.map((token) => token.address),
+        topics: [TRANSFER_TOPIC, null, ethers.zeroPadValue(poolAddress, 32)],
+        fromBlock,
+        toBlock: scannedTo,
+      });
+
+      for (const log of logs) {
+        const token = this.getToken(log.address);
+        const parsed = erc20Interface.parseLog({ topics: [...log.topics], data: log.data });
+        if (!token || !parsed) continue;
+
+        const [from, , value] = parsed.args as unknown as [string, string, bigint];
+        add({ signature: log.transactionHash, from, tokenAddress: token.address, amount: value });
+      }
+    }
+
+    return { transfers: Array.from(totals.values()), cursor: scannedTo.toString() };
+  }
+
+  // Chains without EIP-1559 (e.g. BSC) report only gasPrice, which then serves as both caps.
+  private async getPayoutFeeParams(): Promise<PayoutFeeParams> {
+    const feeData = await this.provider.getFeeData();
+    const maxFeePerGas = feeData.maxFeePerGas ?? feeData.gasPrice;
+    const maxPriorityFeePerGas = feeData.maxPriorityFeePerGas ?? feeData.gasPrice;
+
+    if (maxFeePerGas === null || maxPriorityFeePerGas === null) {
+      throw new Error(`Unable to estimate ${this.nativeSymbol} gas price`);
+    }
+
+    return { gasLimit: NATIVE_TRANSFER_GAS_LIMIT, maxFeePerGas, maxPriorityFeePerGas };
+  }
+
+  async sendPayout(
+    recipientAddress: string,
+    amount: string,
+    token?: TokenConfig,
+    onSigned?: PayoutSignedCallback
+  ): Promise<PayoutResult> {
+    if (!this.poolWallet) {
+      throw new Error(`${this.nativeSymbol} Pool wallet not initialized`);
+    }
+
+    if (token) {
+      return this.sendTokenPayout(this.poolWallet, recipientAddress, amount, token, onSigned);
+    }
+
+    const { gasLimit, maxFeePerGas, maxPriorityFeePerGas } = await this.getPayoutFeeParams();
+    const payoutWei = ethers.parseEther(amount);
+
+    if (payoutWei <= BigInt(0)) {
+      throw new Error("Payout amount must be positive");
+    }
+
+    const receipt = await this.sendSigned(this.poolWallet, {
+      to: recipientAddress,
+      value: payoutWei,
+      gasLimit,
+      maxFeePerGas,
+      maxPriorityFeePerGas,
+    }, amount, onSigned);
+
+    return {
+      signature: receipt.hash,
+      amount,
+      networkFee: ethers.formatEther(receipt.fee),
+    };
+  }
+
+  private async sendTokenPayout(
+    poolWallet: ethers.Wallet,
+    recipientAddress: string,
+    amount: string,
+    token: TokenConfig,
+    onSigned?: PayoutSignedCallback
+  ): Promise<PayoutResult> {
+    const payoutUnits = ethers.parseUnits(amount, token.decimals);
+    if (payoutUnits <= BigInt(0)) {
+      throw new Error("Payout amount must be positive");
+    }
+
+    const contract = new ethers.Contract(token.address, ERC20_ABI, poolWallet);
+    const { maxFeePerGas, maxPriorityFeePerGas } = await this.getPayoutFeeParams();
+    const gasLimit = await contract.transfer.estimateGas(recipientAddress, payoutUnits);
+
+    const request = await contract.transfer.populateTransaction(recipientAddress, payoutUnits, {
+      gasLimit,
+      maxFeePerGas,
+      maxPriorityFeePerGas,
+    });
+
+    const receipt = await this.sendSigned(poolWallet, request, amount, onSigned);
+    return {
+      signature: receipt.hash,
+      amount,
+      networkFee: ethers.formatEther(receipt.fee),
+    };
+  }
+
+  // Signs locally and hands the signed transaction to `onSigned` before it is broadcast, so the
+  // caller has it on record whatever happens after.
+  private async sendSigned(
+    poolWallet: ethers.Wallet,
+    request: ethers.TransactionRequest,
+    amount: string,
+    onSigned?: PayoutSignedCallback
+  ): Promise<ethers.TransactionReceipt> {
+    const rawTransaction = await poolWallet.signTransaction(await poolWallet.populateTransaction(request));
+    const signature = ethers.Transaction.from(rawTransaction).hash!;
+    await onSigned?.({ signature, rawTransaction, amount });
+
+    const tx = await this.provider.broadcastTransaction(rawTransaction);
+    const receipt = await tx.wait();
+    if (!receipt || receipt.status === 0) {
+      throw new Error("Payout transaction reverted");
+    }
+    return receipt;
+  }
+
+  // Each pool nonce can be mined once, so once the pool's mined nonce has passed this transaction's
+  // without a receipt for it, it was replaced or dropped and can never land.
+  async getPayoutStatus(payout: SignedPayout): Promise<PayoutStatus> {
+    const tx = ethers.Transaction.from(payout.rawTransaction);
+
+    // Read before the receipt so a transfer mined in between isn't taken for dropped.
+    const minedNonce = await this.provider.getTransactionCount(tx.from!, "latest");
+    const receipt = await this.provider.getTransactionReceipt(payout.signature);
+
+    if (receipt) {
+      if (receipt.status === 0) {
+        return { state: "failed", error: "Payout transaction reverted" };
+      }
+      return { state: "confirmed", networkFee: ethers.formatEther(receipt.fee) };
+    }
+    if (minedNonce > tx.nonce) {
+      return { state: "dropped" };
+    }
+
+    try {
+      await this.provider.broadcastTransaction(payout.rawTransaction);
+    } catch (error) {
+      log.debug("Rebroadcast rejected", { chain: this.id, signature: payout.signature, error });
+    }
+    return { state: "pending" };
+  }
+
+  async estimateFee(): Promise<FeeEstimate> {
+    const { gasLimit, maxFeePerGas, maxPriorityFeePerGas } = await this.getPayoutFeeParams();
+    return {
+      fee: ethers.formatEther(gasLimit * maxFeePerGas),
+      symbol: this.nativeSymbol,
+      gasLimit: gasLimit.toString(),
+      maxFeePerGas: maxFeePerGas.toString(),
+      maxPriorityFeePerGas: maxPriorityFeePerGas.toString(),
+    };
+  }
+
+  getExplorerTxUrl(signature: string): string {
+    return `${this.config.explorerUrl}/tx/${signature}`;
+  }
+
+  getExplorerAddressUrl(address: string): string {
+    return `${this.config.explorerUrl}/address/${address}`;
+  }
+}
@@ -0,0 +1,161 @@
+import { getSecureConfig } from "../secure-config";
+import { SolanaChainAdapter } from "./solanaAdapter";
+import { EvmChainAdapter, type EvmChainConfig } from "./evmAdapter";
+import type { ChainAdapter, TokenConfig } from "./types";
+
+const secureConfig = getSecureConfig();
+
+const GIFT_VAULT_TOKEN_SYMBOL = "VEILRA";
+
+// Adding another EVM network (Polygon, Base, ...) only needs an entry here.
+const EVM_CHAINS: EvmChainConfig[] = [
+  {
+    id: "ethereum",
+    chainId: 1,
+    name: "Ethereum",
+    aliases: ["eth"],
+    nativeSymbol: "ETH",
+    rpcUrl: secureConfig.ETH_RPC_URL || "https://eth.llamarpc.com",
+    poolPrivateKey: secureConfig.ETH_POOL_WALLET_PRIVATE_KEY,
+    poolPrivateKeyName: "ETH_POOL_WALLET_PRIVATE_KEY",
+    explorerUrl: "https://etherscan.io",
+    lowBalanceThreshold: secureConfig.ETH_LOW_BALANCE_THRESHOLD || "1",
+    feePolicy: {
+      serviceFee: { type: "percentage", bps: 50 },
+      minDeposit: "0.005",
+      maxDeposit: "50",
+    },
+    tokens: [
+      {
+        address: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48",
+        symbol: "USDC",
+        decimals: 6,
+        lowBalanceThreshold: "1000",
+        feePolicy: {
+          serviceFee: { type: "percentage", bps: 50 },
+          minDeposit: "10",
+          maxDeposit: "100000",
+        },
+      },
+      {
+        address: "0xdAC17F958D2ee523a2206206994597C13D831ec7",
+        symbol: "USDT",
+        decimals: 6,
+        lowBalanceThreshold: "1000",
+        feePolicy: {
+          serviceFee: { type: "percentage", bps: 50 },
+          minDeposit: "10",
+          maxDeposit: "100000",
+        },
+      },
+    ],
+  },
+  {
+    id: "bnb",
+    chainId: 56,
+    name: "BNB",
+    aliases: ["bsc"],
+    nativeSymbol: "BNB",
+    rpcUrl: secureConfig.BNB_RPC_URL || "https://bsc-dataseed.binance.org",
+    poolPrivateKey: secureConfig.BNB_POOL_WALLET_PRIVATE_KEY,
+    poolPrivateKeyName: "BNB_POOL_WALLET_PRIVATE_KEY",
+    explorerUrl: "https://bscscan.com",
+    lowBalanceThreshold: secureConfig.BNB_LOW_BALANCE_THRESHOLD || "5",
+    feePolicy: {
+      serviceFee: { type: "percentage", bps: 50 },
+      minDeposit: "0.01",
+      maxDeposit: "500",
+    },
+    tokens: [
+      {
+        address: "0x55d398326f99059fF775485246999027B3197955",
+        symbol: "USDT",
+        decimals: 18,
+        lowBalanceThreshold: "1000",
+        feePolicy: {
+          serviceFee: { type: "percentage", bps: 50 },
+          minDeposit: "5",
+          maxDeposit: "100000",
+        },
+      },
+      {
+        address: "0x8AC76a51cc950d9822D68b83fE1Ad97B32Cd580d",
+        symbol: "USDC",
+        decimals: 18,
+        lowBalanceThreshold: "1000",
+        feePolicy: {
+          serviceFee: { type: "percentage", bps: 50 },
+          minDeposit: "5",
+          maxDeposit: "100000",
+        },
+      },
+    ],
+  },
+];
+
+export const solanaAdapter = new SolanaChainAdapter({
+  rpcUrl: secureConfig.SOLANA_RPC_URL || "https://api.mainnet-beta.solana.com",
+  poolPrivateKey: secureConfig.POOL_WALLET_PRIVATE_KEY,
+  explorerUrl: "https://solscan.io",
+  lowBalanceThreshold: secureConfig.SOLANA_LOW_BALANCE_THRESHOLD || "10",
+  feePolicy: {
+    serviceFee: { type: "percentage", bps: 50 },
+    minDeposit: "0.001",
+    maxDeposit: "1000",
+  },
+  tokens: [
+    {
+      address: "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v",
+      symbol: "USDC",
+      decimals: 6,
+      lowBalanceThreshold: "1000",
+      feePolicy: {
+        serviceFee: { type: "percentage", bps: 50 },
+        minDeposit: "1",
+        maxDeposit: "100000",
+      },
+    },
+    ...(secureConfig.VEILRA_TOKEN_MINT
+      ? [
+          {
+            address: secureConfig.VEILRA_TOKEN_MINT,
+            symbol: GIFT_VAULT_TOKEN_SYMBOL,
+            decimals: parseInt(secureConfig.VEILRA_TOKEN_DECIMALS || "9", 10),
+            lowBalanceThreshold: secureConfig.VEILRA_LOW_BALANCE_THRESHOLD || "10000",
+            feePolicy: {
+              serviceFee: { type: "percentage" as const, bps: 50 },
+              minDeposit: "1",
+              maxDeposit: "10000000",
+            },
+          },
+        ]
+      : []),
+  ],
+});
+
+// Gift vaults hold the project token on Solana; unset when VEILRA_TOKEN_MINT isn't configured.
+export function getGiftVaultToken(): TokenConfig | undefined {
+  return solanaAdapter.tokens.find((token) => token.symbol === GIFT_VAULT_TOKEN_SYMBOL);
+}
+
+const adapters = new Map<string, ChainAdapter>();
+
+function registerChainAdapter(adapter: ChainAdapter) {
+  adapters.set(adapter.id, adapter);
+  for (const alias of adapter.aliases) {
+    adapters.set(alias, adapter);
+  }
+}
+
+registerChainAdapter(solanaAdapter);
+for (const config of EVM_CHAINS) {
+  registerChainAdapter(new EvmChainAdapter(config));
+}
+
+export function getChainAdapter(chain: string): ChainAdapter | undefined {
+  return adapters.get(chain.toLowerCase());
+}
+
+export function getChainAdapters(): ChainAdapter[] {
+  return Array.from(new Set(adapters.values()));
+}
@@ -0,0 +1,764 @@
+import {
+  Connection,
+  PublicKey,
+  LAMPORTS_PER_SOL,
+  Keypair,
+  Transaction,
+  SystemProgram,
+  SystemInstruction,
+  type ConfirmedSignatureInfo,
+  type ParsedInstruction,
+  type ParsedTransactionMeta,
+  type ParsedTransactionWithMeta,
+  type PartiallyDecodedInstruction,
+} from "@solana/web3.js";
+import {
+  TOKEN_PROGRAM_ID,
+  TOKEN_2022_PROGRAM_ID,
+  getAssociatedTokenAddressSync,
+  createAssociatedTokenAccountIdempotentInstruction,
+  createTransferCheckedInstruction,
+} from "@solana/spl-token";
+import { createPublicKey, verify } from "crypto";
+import bs58 from "bs58";
+import type {
+  ChainAdapter,
+  ChainBalance,
+  ChainHead,
+  DepositScan,
+  DepositVerification,
+  FeeEstimate,
+  FeePolicy,
+  IncomingTransfer,
+  PayoutResult,
+  PayoutSignedCallback,
+  PayoutStatus,
+  SignedPayout,
+  TokenConfig,
+} from "./types";
+import { fromBaseUnits, toBaseUnits } from "./units";
+import { logger, redactUrl } from "../logger";
+import { observeRpc } from "../metrics";
+
+const log = logger.child({ component: "SolanaAdapter" });
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+const NETWORK_FEE_LAMPORTS = 5000;
+const DEFAULT_MAX_TRANSACTION_AGE_SECONDS = 24 * 60 * 60;
+const SIGNATURE_SCAN_LIMIT = 100;
+const SIGNATURE_PAGE_SIZE = 1000;
+// DER prefix that wraps a raw 32-byte ed25519 public key as SPKI for node's crypto.verify.
+const ED25519_SPKI_PREFIX = Buffer.from("302a300506032b6570032100", "hex");
+
+function decodeBase58(str: string): Uint8Array {
+  const bytes: number[] = [0];
+  for (let i = 0; i < str.length; i++) {
+    const char = str[i];
+    const value = BASE58_ALPHABET.indexOf(char);
+    if (value === -1) {
+      throw new Error(`Invalid base58 character: ${char}`);
+    }
+    for (let j = 0; j < bytes.length; j++) {
+      bytes[j] *= 58;
+    }
+    bytes[0] += value;
+    let carry = 0;
+    for (let j = 0; j < bytes.length; j++) {
+      bytes[j] += carry;
+      carry = Math.floor(bytes[j] / 256);
+      bytes[j] %= 256;
+    }
+    while (carry) {
+      bytes.push(carry % 256);
+      carry = Math.floor(carry / 256);
+    }
+  }
+  for (let i = 0; i < str.length && str[i] === '1'; i++) {
+    bytes.push(0);
+  }
+  return new Uint8Array(bytes.reverse());
+}
+
+const TOKEN_PROGRAM_IDS = [TOKEN_PROGRAM_ID.toBase58(), TOKEN_2022_PROGRAM_ID.toBase58()];
+
+function isTokenTransfer(
+  instruction: ParsedInstruction | PartiallyDecodedInstruction
+): instruction is ParsedInstruction {
+  return (
+    "parsed" in instruction &&
+    TOKEN_PROGRAM_IDS.includes(instruction.programId.toBase58()) &&
+    (instruction.parsed?.type === "transfer" || instruction.parsed?.type === "transferChecked")
+  );
+}
+
+function isSystemTransfer(
+  instruction: ParsedInstruction | PartiallyDecodedInstruction
+): instruction is ParsedInstruction {
+  return (
+    "parsed" in instruction &&
+    instruction.programId.equals(SystemProgram.programId) &&
+    (instruction.parsed?.type === "transfer" || instruction.parsed?.type === "transferWithSeed")
+  );
+}
+
+// Net change in `owner`'s holdings of `mint` across all of its token accounts in the transaction.
+function getTokenBalanceDelta(meta: ParsedTransactionMeta, owner: string, mint: string): bigint {
+  const sum = (balances: ParsedTransactionMeta["postTokenBalances"]) =>
+    (balances || [])
+      .filter((b) => b.owner === owner && b.mint === mint)
+      .reduce((total, b) => total + BigInt(b.uiTokenAmount.amount), BigInt(0));
+  return sum(meta.postTokenBalances) - sum(meta.preTokenBalances);
+}
+
+export interface SolanaChainConfig {
+  rpcUrl: string;
+  poolPrivateKey?: string;
+  explorerUrl: string;
+  feePolicy: FeePolicy;
+  tokens: TokenConfig[];
+  lowBalanceThreshold: string;
+  maxTransactionAgeSeconds?: number;
+}
+
+export class SolanaChainAdapter implements ChainAdapter {
+  readonly id = "solana";
+  readonly family = "solana";
+  readonly chainId = "mainnet";
+  readonly name = "Solana";
+  readonly aliases = ["sol"];
+  readonly nativeSymbol = "SOL";
+  readonly decimals = 9;
+  readonly rpcUrl: string;
+  readonly feePolicy: FeePolicy;
+  readonly tokens: TokenConfig[];
+  readonly lowBalanceThreshold: string;
+  readonly connection: Connection;
+  private readonly maxTransactionAgeSeconds: number;
+
+  private poolWallet: Keypair | null = null;
+  private poolAddress: string | null = null;
+  private poolTokenAccounts = new Map<string, string>();
+
+  constructor(private readonly config: SolanaChainConfig) {
+    this.rpcUrl = config.rpcUrl;
+    this.feePolicy = config.feePolicy;
+    this.tokens = config.tokens;
+    this.lowBalanceThreshold = config.lowBalanceThreshold;
+    this.maxTransactionAgeSeconds = config.maxTransactionAgeSeconds ?? DEFAULT_MAX_TRANSACTION_AGE_SECONDS;
+    this.connection = new Connection(config.rpcUrl, {
+      commitment: "confirmed",
+      fetch: (input, init) => observeRpc("solana", init?.body, () => fetch(input, init)),
+    });
+    log.info("RPC connected", { rpc: redactUrl(config.rpcUrl) });
+    this.initializePoolWallet();
+  }
+
+  private initializePoolWallet() {
+    if (this.poolWallet) return;
+
+    const privateKeyBase58 = this.config.poolPrivateKey;
+    log.debug("Initializing pool wallet", { keyAvailable: !!privateKeyBase58 });
+
+    if (privateKeyBase58) {
+      try {
+        const secretKey = decodeBase58(privateKeyBase58);
+        this.poolWallet = Keypair.fromSecretKey(secretKey);
+        this.poolAddress = this.poolWallet.publicKey.toBase58();
+        log.info("Pool wallet initialized", { poolAddress: this.poolAddress });
+      } catch (error) {
+        log.error("Failed to initialize pool wallet", { error });
+      }
+    } else {
+      log.warn("POOL_WALLET_PRIVATE_KEY not set - mixer functionality disabled");
+    }
+  }
+
+  getPoolAddress(): string | null {
+    if (!this.poolAddress) {
+      this.initializePoolWallet();
+    }
+    return this.poolAddress;
+  }
+
+  getToken(address: string): TokenConfig | undefined {
+    return this.tokens.find((token) => token.address === address);
+  }
+
+  isValidAddress(address: string): boolean {
+    try {
+      new PublicKey(address);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  // `signature` is the base58-encoded ed25519 signature returned by the wallet's signMessage.
+  verifySignedMessage(message: string, signature: string, address: string): boolean {
+    try {
+      const publicKey = createPublicKey({
+        key: Buffer.concat([ED25519_SPKI_PREFIX, new PublicKey(address).toBuffer()]),
+        format: "der",
+        type: "spki",
+      });
+      return verify(null, Buffer.from(message, "utf8"), publicKey, decodeBase58(signature));
+    } catch {
+      return false;
+    }
+  }
+
+  async getBalance(address: string): Promise<ChainBalance> {
+    const lamports = await this.connection.getBalance(new PublicKey(address));
+    return { balance: lamports / LAMPORTS_PER_SOL, lamports };
+  }
+
+  async getChainHead(): Promise<ChainHead> {
+    const slot = await this.connection.getSlot("finalized");
+    return { height: slot, timestamp: await this.connection.getBlockTime(slot) };
+  }
+
+  // Pool holdings in base units: lamports, or the sum of the pool's token accounts for the mint.
+  async getPoolBalance(token?: TokenConfig): Promise<bigint> {
+    const poolAddress = this.getPoolAddress();
+    if (!poolAddress) {
+      throw new Error("Pool wallet not initialized");
+    }
+
+    const owner = new PublicKey(poolAddress);
+    if (!token) {
+      return BigInt(await this.connection.getBalance(owner));
+    }
+
+    const { value } = await this.connection.getParsedTokenAccountsByOwner(owner, {
+      mint: new PublicKey(token.address),
+    });
+    return value.reduce(
+      (total, account) => total + BigInt(account.account.data.parsed.info.tokenAmount.amount),
+      BigInt(0)
+    );
+  }
+
+  async verifyDeposit(
+    signature: string,
+    fromAddress: string,
+    toAddress: string,
+    amount: string,
+    token?: TokenConfig
+  ): Promise<DepositVerification> {
+    if (token) {
+      return this.verifyTokenDeposit(signature, fromAddress, toAddress, amount, token);
+    }
+
+    try {
+      const { txInfo, error } = await this.getFinalizedTransaction(signature);
+      if (!txInfo) {
+        return { valid: false, error };
+      }
+
+      const meta = txInfo.meta!;
+      const accountKeys = txInfo.transaction.message.accountKeys.map((key) => key.pubkey.toBase58());
+      const instructions = [
+        ...txInfo.transaction.message.instructions,
+        ...(meta.innerInstructions || []).flatMap((inner) => inner.instructions),
+      ];
+
+      let actualSender: string | undefined;
+      let transferredLamports = BigInt(0);
+
+      for (const instruction of instructions) {
+        if (!isSystemTransfer(instruction)) continue;
+
+        const info = instruction.parsed.info;
+        if (info.destination !== toAddress) continue;
+
+        const source: string = info.source ?? info.from;
+        if (fromAddress !== "pending" && source !== fromAddress) continue;
+
+        actualSender = source;
+        transferredLamports += BigInt(info.lamports);
+      }
+
+      if (!actualSender) {
+        return { valid: false, error: "No transfer to the recipient found" };
+      }
+
+      const expectedLamports = toBaseUnits(amount, this.decimals);
+      if (transferredLamports !== expectedLamports) {
+        return { valid: false, error: "Amount mismatch", actualSender };
+      }
+
+      // The instruction could be offset elsewhere in the transaction, so also require the
+      // recipient's own balance to have grown by at least the expected amount.
+      const recipientIndex = accountKeys.indexOf(toAddress);
+      const balanceDelta = BigInt(meta.postBalances[recipientIndex] ?? 0) - BigInt(meta.preBalances[recipientIndex] ?? 0);
+      if (recipientIndex === -1 || balanceDelta < expectedLamports) {
+        return { valid: false, error: "Recipient balance did not increase", actualSender };
+      }
+
+      return { valid: true, actualSender };
+    } catch (error) {
+      log.error("Error verifying transaction", { signature, error });
+      return { valid: false, error: "Failed to verify transaction on chain" };
+    }
+  }
+
+  // Only finalized, successful, recent transactions are accepted as deposits.
+  private async getFinalizedTransaction(
+    signature: string
+  ): Promise<{ txInfo?: ParsedTransactionWithMeta; error?: string; retryable?: boolean }> {
+    const txInfo = await this.connection.getParsedTransaction(signature, {
+      commitment: "finalized",
+      maxSupportedTransactionVersion: 0,
+    });
+
+    if (!txInfo || !txInfo.meta) {
+      return { error: "Transaction not found on chain or not yet finalized", retryable: true };
+    }
+
+    if (txInfo.meta.err) {
+      return { error: "Transaction failed on chain" };
+    }
+
+    if (!txInfo.blockTime) {
+      return { error: "Transaction block time unavailable", retryable: true };
+    }
+
+    const ageSeconds = Date.now() / 1000 - txInfo.blockTime;
+    if (ageSeconds > this.maxTransactionAgeSeconds) {
+      return { error: "Transaction is too old" };
+    }
+
+    return { txInfo };
+  }
+
+  private async verifyTokenDeposit(
+    signature: string,
+    fromAddress: string,
+    toAddress: string,
+    amount: string,
+    token: TokenConfig
+  ): Promise<DepositVerification> {
+    try {
+      const { txInfo, error } = await this.getFinalizedTransaction(signature);
+      if (!txInfo) {
+        return { valid: false, error };
+      }
+
+      const meta = txInfo.meta!;
+      const accountKeys = txInfo.transaction.message.accountKeys.map((key) => key.pubkey.toBase58());
+      const instructions = [
+        ...txInfo.transaction.message.instructions,
+        ...(meta.innerInstructions || []).flatMap((inner) => inner.instructions),
+      ];
+
+      const isPoolTokenAccount = (account: string) => {
+        const index = accountKeys.indexOf(account);
+        return (meta.postTokenBalances || []).some(
+          (b) => b.accountIndex === index && b.owner === toAddress && b.mint === token.address
+        );
+      };
+
+      const expectedUnits = toBaseUnits(amount, token.decimals);
+      let actualSender: string | undefined;
+      let transferredUnits = BigInt(0);
+
+      for (const instruction of instructions) {
+        if (!isTokenTransfer(instruction)) continue;
+
+        const info = instruction.parsed.info;
+        if (info.mint && info.mint !== token.address) continue;
+        if (!isPoolTokenAccount(info.destination)) continue;
+
+        const authority: string = info.authority || info.multisigAuthority;
+        if (fromAddress !== "pending" && authority !== fromAddress) continue;
+
+        actualSender = authority;
+        transferredUnits += BigInt(info.amount ?? info.tokenAmount.amount);
+      }
+
+      if (!actualSender) {
+        return { valid: false, error: "No token transfer to the pool found" };
+      }
+
+      if (transferredUnits !== expectedUnits) {
+        return { valid: false, error: "Amount mismatch", actualSender };
+      }
+
+      if (getTokenBalanceDelta(meta, toAddress, token.address) < expectedUnits) {
+        return { valid: false, error: "Pool token balance did not increase", actualSender };
+      }
+
+      return { valid: true, actualSender };
+    } catch (error) {
+      log.error("Error verifying token transaction", { signature, error });
+      return { valid: false, error: "Failed to verify transaction on chain" };
+    }
+  }
+
+  // Polls signatures for the pool and its token accounts. The cursor maps each watched address to the
+  // newest signature already processed. New signatures are taken oldest first, at most
+  // SIGNATURE_SCAN_LIMIT per address per scan; the rest are picked up by the following scans. An
+  // address stops at the first transaction that can't be read yet, so the next scan retries it.
+  async scanDeposits(cursor: string | null): Promise<DepositScan> {
+    const poolAddress = this.getPoolAddress();
+    if (!poolAddress) {
+      return { transfers: [], cursor };
+    }
+
+    const lastSeen: Record<string, string> = cursor ? JSON.parse(cursor) : {};
+    const transfers: IncomingTransfer[] = [];
+    // A transaction touching several watched addresses is read and reported once.
+    const processed = new Set<string>();
+
+    for (const address of await this.getWatchedAddresses(poolAddress)) {
+      // Oldest first, so earlier deposits are matched to sessions first.
+      const results = (await this.getSignaturesSince(address, lastSeen[address])).slice(0, SIGNATURE_SCAN_LIMIT);
+      for (const result of results) {
+        if (!result.err && !processed.has(result.signature)) {
+          const txInfo = await this.readScannedTransaction(result.signature);
+          if (txInfo === undefined) break;
+          processed.add(result.signature);
+          if (txInfo) {
+            transfers.push(...this.getIncomingTransfers(result.signature, txInfo, poolAddress));
+          }
+        }
+        lastSeen[address] = result.signature;
+      }
+    }
+
+    return { transfers, cursor: JSON.stringify(lastSeen) };
+  }
+
+  // Null for a transaction that will never count as a deposit, undefined for one that can't be read yet.
+  private async readScannedTransaction(signature: string): Promise<ParsedTransactionWithMeta | null | undefined> {
+    try {
+      const { txInfo, error, retryable } = await this.getFinalizedTransaction(signature);
+      if (!txInfo && retryable) {
+        log.warn("Scanned transaction not readable yet, retrying next scan", { signature, error });
+        return undefined;
+      }
+      return txInfo ?? null;
+    } catch (error) {
+      log.warn("Error reading scanned transaction, retrying next scan", { signature, error });
+      return undefined;
+    }
+  }
+
+  // Pages back from the newest signature to `until`, so none are skipped however many arrived since
+  // the last scan. Without `until` only the latest page is read. Returned oldest first.
+  private async getSignaturesSince(address: string, until: string | undefined): Promise<ConfirmedSignatureInfo[]> {
+    const results: ConfirmedSignatureInfo[] = [];
+    let before: string | undefined;
+    for (;;) {
+      const page = await this.connection.getSignaturesForAddress(
+        new PublicKey(address),
+        { until, before, limit: SIGNATURE_PAGE_SIZE },
+        "finalized"
+      );
+      results.push(...page);
+      if (!until || page.length < SIGNATURE_PAGE_SIZE) break;
+      before = page[page.length - 1].signature;
+    }
+    return results.reverse();
+  }
+
+  onDepositActivity(callback: () => void): () => void {
+    const subscriptionIds: number[] = [];
+    let closed = false;
+
+    const poolAddress = this.getPoolAddress();
+    if (poolAddress) {
+      this.getWatchedAddresses(poolAddress)
+        .then((addresses) => {
+          if (closed) return;
+          for (const address of addresses) {
+            subscriptionIds.push(
+              this.connection.onAccountChange(new PublicKey(address), () => callback(), "finalized")
+            );
+          }
+        })
+        .catch((error) => log.error("Failed to subscribe to pool accounts", { error }));
+    }
+
+    return () => {
+      closed = true;
+      for (const id of subscriptionIds) {
+        void this.connection.removeAccountChangeListener(id);
+      }
+    };
+  }
+
+  private async getWatchedAddresses(poolAddress: string): Promise<string[]> {
+    const addresses = [poolAddress];
+    for (const token of this.tokens) {
+      addresses.push(await this.getPoolTokenAccount(poolAddress, token));
+    }
+    return addresses;
+  }
+
+  // The pool's associated token account for the mint, where token deposits are sent.
+  async getPoolTokenAccount(poolAddress: string, token: TokenConfig): Promise<string> {
+    let account = this.poolTokenAccounts.get(token.address);
+    if (!account) {
+      const mint = new PublicKey(token.address);
+      const programId = await this.getTokenProgramId(mint);
+      account = getAssociatedTokenAddressSync(mint, new PublicKey(poolAddress), false, programId).toBase58();
+      this.poolTokenAccounts.set(token.address, account);
+    }
+    return account;
+  }
+
+  // Totals native and allow-listed token transfers into the pool per sender and asset.
+  private getIncomingTransfers(
+    signature: string,
+    txInfo: ParsedTransactionWithMeta,
+    poolAddress: string
+  ): IncomingTransfer[] {
+    const meta = txInfo.meta!;
+    const accountKeys = txInfo.transaction.message.accountKeys.map((key) => key.pubkey.toBase58());
+    const instructions = [
+      ...txInfo.transaction.message.instructions,
+      ...(meta.innerInstructions || []).flatMap((inner) => inner.instructions),
+    ];
+    const totals = new Map<string, IncomingTransfer>();
+
+    const add = (from: string, amount: bigint, tokenAddress?: string) => {
+      const key = `${from}:${tokenAddress ?? ""}`;
+      const existing = totals.get(key);
+      if (existing) {
+        existing.amount += amount;
+      } else {
+        totals.set(key, { signature, from, tokenAddress, amount });
+      }
+    };
+
+    for (const instruction of instructions) {
+      if (isSystemTransfer(instruction)) {
+        const info = instruction.parsed.info;
+        if (info.destination === poolAddress) {
+          add(info.source ?? info.from, BigInt(info.lamports));
+        }
+      } else if (isTokenTransfer(instruction)) {
+        const info = instruction.parsed.info;
+        const index = accountKeys.indexOf(info.destination);
+        const balance = (meta.postTokenBalances || []).find(
+          (b) => b.accountIndex === index && b.owner === poolAddress
+        );
+        if (!balance || !this.getToken(balance.mint)) continue;
+
+        add(info.authority || info.multisigAuthority, BigInt(info.amount ?? info.tokenAmount.amount), balance.mint);
+      }
+    }
+
+    return Array.from(totals.values());
+  }
+
+  async sendPayout(
+    recipientAddress: string,
+    amount: string,
+    token?: TokenConfig,
+    onSigned?: PayoutSignedCallback
+  ): Promise<PayoutResult> {
+    if (!this.poolWallet) {
+      throw new Error("Pool wallet not initialized");
+    }
+
+    if (token) {
+      return this.sendTokenPayout(this.poolWallet, recipientAddress, amount, token, onSigned);
+    }
+
+    const recipientPubkey = new PublicKey(recipientAddress);
+    const payoutLamports = Number(toBaseUnits(amount, this.decimals));
+
+    if (payoutLamports <= 0) {
+      throw new Error("Payout amount must be positive");
+    }
+
+    const transaction = new Transaction().add(
+      SystemProgram.transfer({
+        fromPubkey: this.poolWallet.publicKey,
+        toPubkey: recipientPubkey,
+        lamports: payoutLamports,
+      })
+    );
+
+    const signature = await this.sendSigned(this.poolWallet, transaction, amount, onSigned);
+    return {
+      signature,
+      amount,
+      networkFee: (NETWORK_FEE_LAMPORTS / LAMPORTS_PER_SOL).toString(),
+    };
+  }
+
+  // Pays out from the pool's associated token account, creating the recipient's ATA when missing.
+  private async sendTokenPayout(
+    poolWallet: Keypair,
+    recipientAddress: string,
+    amount: string,
+    token: TokenConfig,
+    onSigned?: PayoutSignedCallback
+  ): Promise<PayoutResult> {
+    const mint = new PublicKey(token.address);
+    const recipientPubkey = new PublicKey(recipientAddress);
+    const payoutUnits = toBaseUnits(amount, token.decimals);
+
+    if (payoutUnits <= BigInt(0)) {
+      throw new Error("Payout amount must be positive");
+    }
+
+    const programId = await this.getTokenProgramId(mint);
+    const sourceAccount = getAssociatedTokenAddressSync(mint, poolWallet.publicKey, false, programId);
+    const destinationAccount = getAssociatedTokenAddressSync(mint, recipientPubkey, true, programId);
+    const destinationExists = !!(await this.connection.getAccountInfo(destinationAccount));
+
+    const transaction = new Transaction().add(
+      createAssociatedTokenAccountIdempotentInstruction(
+        poolWallet.publicKey,
+        destinationAccount,
+        recipientPubkey,
+        mint,
+        programId
+      ),
+      createTransferCheckedInstruction(
+        sourceAccount,
+        mint,
+        destinationAccount,
+        poolWallet.publicKey,
+        payoutUnits,
+        token.decimals,
+        [],
+        programId
+      )
+    );
+
+    const signature = await this.sendSigned(poolWallet, transaction, amount, onSigned);
+    const rentLamports = destinationExists
+      ? 0
+      : await this.connection.getMinimumBalanceForRentExemption(165);
+    return {
+      signature,
+      amount,
+      networkFee: ((NETWORK_FEE_LAMPORTS + rentLamports) / LAMPORTS_PER_SOL).toString(),
+    };
+  }
+
+  // Signs against a fresh blockhash and hands the signed transaction to `onSigned` before it is
+  // broadcast, so the caller has it on record whatever happens after.
+  private async sendSigned(
+    poolWallet: Keypair,
+    transaction: Transaction,
+    amount: string,
+    onSigned?: PayoutSignedCallback
+  ): Promise<string> {
+    const { blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash("confirmed");
+    transaction.recentBlockhash = blockhash;
+    transaction.lastValidBlockHeight = lastValidBlockHeight;
+    transaction.feePayer = poolWallet.publicKey;
+    transaction.sign(poolWallet);
+
+    const rawTransaction = transaction.serialize();
+    const signature = bs58.encode(transaction.signature!);
+    await onSigned?.({ signature, rawTransaction: rawTransaction.toString("base64"), amount, lastValidBlockHeight });
+
+    await this.connection.sendRawTransaction(rawTransaction);
+    const { value } = await this.connection.confirmTransaction(
+      { signature, blockhash, lastValidBlockHeight },
+      "confirmed"
+    );
+    if (value.err) {
+      throw new Error(`Transaction failed: ${JSON.stringify(value.err)}`);
+    }
+    return signature;
+  }
+
+  // A transaction can't land past its last valid block height, so once the finalized chain is beyond
+  // it a signature the cluster doesn't know was dropped for good. The blockhash was fetched at
+  // "confirmed" and may not be finalized yet, so its own validity says nothing until then.
+  async getPayoutStatus(payout: SignedPayout): Promise<PayoutStatus> {
+    const rawTransaction = Buffer.from(payout.rawTransaction, "base64");
+    const transaction = Transaction.from(rawTransaction);
+
+    // Checked before the signature so a transfer landing in between isn't taken for dropped.
+    const expired = await this.isPastLastValidBlockHeight(payout, transaction);
+    const { value: status } = await this.connection.getSignatureStatus(payout.signature, {
+      searchTransactionHistory: true,
+    });
+
+    if (status?.err) {
+      return { state: "failed", error: `Transaction failed: ${JSON.stringify(status.err)}` };
+    }
+    if (status?.confirmationStatus === "confirmed" || status?.confirmationStatus === "finalized") {
+      return { state: "confirmed", networkFee: await this.getPayoutNetworkFee(payout.signature, transaction) };
+    }
+    if (!status && expired) {
+      return { state: "dropped" };
+    }
+
+    try {
+      await this.connection.sendRawTransaction(rawTransaction, { skipPreflight: true });
+    } catch (error) {
+      log.debug("Rebroadcast rejected", { signature: payout.signature, error });
+    }
+    return { state: "pending" };
+  }
+
+  // Payouts signed before the height was recorded fall back to the blockhash; by now it is long
+  // finalized, so the check can no longer mistake a recent blockhash for an expired one.
+  private async isPastLastValidBlockHeight(payout: SignedPayout, transaction: Transaction): Promise<boolean> {
+    if (payout.lastValidBlockHeight == null) {
+      const { value: blockhashValid } = await this.connection.isBlockhashValid(transaction.recentBlockhash!, {
+        commitment: "finalized",
+      });
+      return !blockhashValid;
+    }
+    const blockHeight = await this.connection.getBlockHeight("finalized");
+    return blockHeight > payout.lastValidBlockHeight;
+  }
+
+  // What the pool paid beyond the lamports it transferred: the transaction fee plus rent for any
+  // token account the payout created. The pool is always the fee payer, at index 0.
+  private async getPayoutNetworkFee(signature: string, transaction: Transaction): Promise<string> {
+    const txInfo = await this.connection.getTransaction(signature, {
+      commitment: "confirmed",
+      maxSupportedTransactionVersion: 0,
+    });
+    if (!txInfo?.meta) {
+      return fromBaseUnits(BigInt(NETWORK_FEE_LAMPORTS), this.decimals);
+    }
+
+    const transferred = transaction.instructions
+      .filter((instruction) =>
+        instruction.programId.equals(SystemProgram.programId) &&
+        SystemInstruction.decodeInstructionType(instruction) === "Transfer"
+      )
+      .reduce((total, instruction) => total + SystemInstruction.decodeTransfer(instruction).lamports, BigInt(0));
+    const spent = BigInt(txInfo.meta.preBalances[0]) - BigInt(txInfo.meta.postBalances[0]);
+    return fromBaseUnits(spent - transferred, this.decimals);
+  }
+
+  private async getTokenProgramId(mint: PublicKey): Promise<PublicKey> {
+    const mintAccount = await this.connection.getAccountInfo(mint);
+    if (!mintAccount) {
+      throw new Error(`Token mint ${mint.toBase58()} not found`);
+    }
+    if (mintAccount.owner.equals(TOKEN_2022_PROGRAM_ID)) {
+      return TOKEN_2022_PROGRAM_ID;
+    }
+    return TOKEN_PROGRAM_ID;
+  }
+
+  async estimateFee(): Promise<FeeEstimate> {
+    return {
+      fee: (NETWORK_FEE_LAMPORTS / LAMPORTS_PER_SOL).toString(),
+      symbol: this.nativeSymbol,
+    };
+  }
+
+  getExplorerTxUrl(signature: string): string {
+    return `${this.config.explorerUrl}/tx/${signature}`;
+  }
+
+  getExplorerAddressUrl(address: string): string {
+    return `${this.config.explorerUrl}/account/${address}`;
+  }
+}
@@ -0,0 +1,128 @@
+export type ChainBalance = { balance: number } & Record<string, number | string>;
+
+export interface DepositVerification {
+  valid: boolean;
+  error?: string;
+  actualSender?: string;
+}
+
+export interface FeeEstimate {
+  fee: string;
+  symbol: string;
+  gasLimit?: string;
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+}
+
+export interface PayoutResult {
+  signature: string;
+  amount: string;
+  networkFee: string;
+}
+
+// A payout signed but not necessarily confirmed. `rawTransaction` is the serialized signed transaction
+// (base64 on Solana, hex on EVM): rebroadcasting it can only ever land the same transfer once.
+// `lastValidBlockHeight` is the last block a Solana transaction can land in; EVM goes by nonce instead.
+export interface SignedPayout {
+  signature: string;
+  rawTransaction: string;
+  amount: string;
+  lastValidBlockHeight?: number | null;
+}
+
+// Called with the signed payout before it is broadcast. If it throws, nothing is sent.
+export type PayoutSignedCallback = (payout: SignedPayout) => Promise<void>;
+
+// Where a signed payout stands on chain. "failed" means it landed but did not execute and "dropped"
+// that it can no longer land, so in both cases no funds moved and a new transfer is safe.
+// "pending" means it may still land.
+export type PayoutStatus =
+  | { state: "confirmed"; networkFee: string }
+  | { state: "failed"; error: string }
+  | { state: "dropped" }
+  | { state: "pending" };
+
+export type ServiceFee =
+  | { type: "percentage"; bps: number }
+  | { type: "flat"; amount: string };
+
+export interface FeePolicy {
+  serviceFee: ServiceFee;
+  minDeposit: string;
+  maxDeposit: string;
+}
+
+// An allow-listed token (SPL mint or ERC-20 contract) the pool accepts in addition to the native asset.
+// `lowBalanceThreshold` is the solvency margin, in whole tokens, below which the treasury alerts.
+export interface TokenConfig {
+  address: string;
+  symbol: string;
+  decimals: number;
+  lowBalanceThreshold: string;
+  feePolicy: FeePolicy;
+}
+
+// A transfer into the pool found by scanning the chain. `tokenAddress` is unset for the native asset.
+export interface IncomingTransfer {
+  signature: string;
+  from: string;
+  tokenAddress?: string;
+  amount: bigint;
+}
+
+// `cursor` is opaque to callers and is passed back on the next scan to resume where it left off.
+export interface DepositScan {
+  transfers: IncomingTransfer[];
+  cursor: string | null;
+}
+
+// Latest finalized slot or block. `timestamp` is unix seconds, null when the node can't report it.
+export interface ChainHead {
+  height: number;
+  timestamp: number | null;
+}
+
+export interface ChainAdapter {
+  readonly id: string;
+  readonly family: "solana" | "evm";
+  // Chain ID used in sign-in messages: "mainnet" for Solana, the numeric EIP-155 ID for EVM chains.
+  readonly chainId: string;
+  readonly name: string;
+  readonly aliases: string[];
+  readonly nativeSymbol: string;
+  readonly decimals: number;
+  readonly rpcUrl: string;
+  readonly feePolicy: FeePolicy;
+  readonly tokens: TokenConfig[];
+  readonly lowBalanceThreshold: string;
+
+  getPoolAddress(): string | null;
+  getPoolBalance(token?: TokenConfig): Promise<bigint>;
+  getChainHead(): Promise<ChainHead>;
+  getToken(address: string): TokenConfig | undefined;
+  isValidAddress(address: string): boolean;
+  verifySignedMessage(message: string, signature: string, address: string): boolean;
+  getBalance(address: string): Promise<ChainBalance>;
+  verifyDeposit(
+    signature: string,
+    fromAddress: string,
+    toAddress: string,
+    amount: string,
+    token?: TokenConfig
+  ): Promise<DepositVerification>;
+  scanDeposits(cursor: string | null): Promise<DepositScan>;
+  onDepositActivity?(callback: () => void): () => void;
+  // Errors thrown after `onSigned` has returned leave the outcome unknown: the transfer may still
+  // land, so callers check getPayoutStatus before sending anything new.
+  sendPayout(
+    recipientAddress: string,
+    amount: string,
+    token?: TokenConfig,
+    onSigned?: PayoutSignedCallback
+  ): Promise<PayoutResult>;
+  // Rebroadcasts the signed transaction while it can still land.
+  getPayoutStatus(payout: SignedPayout): Promise<PayoutStatus>;
+  estimateFee(): Promise<FeeEstimate>;
+  getExplorerTxUrl(signature: string): string;
+  getExplorerAddressUrl(address: string): string;
+}
@@ -0,0 +1,25 @@
+const DECIMAL_PATTERN = /^\d+(\.\d+)?$/;
+
+// Plain non-negative decimals only; no signs or exponents.
+export function isDecimalAmount(amount: string): boolean {
+  return DECIMAL_PATTERN.test(amount.trim());
+}
+
+// Converts a decimal string to integer base units, truncating any digits beyond `decimals`.
+export function toBaseUnits(amount: string, decimals: number): bigint {
+  const trimmed = amount.trim();
+  if (!isDecimalAmount(trimmed)) {
+    throw new Error(`Invalid amount: ${amount}`);
+  }
+  const [whole, fraction = ""] = trimmed.split(".");
+  const paddedFraction = fraction.slice(0, decimals).padEnd(decimals, "0");
+  return BigInt(whole + paddedFraction);
+}
+
+export function fromBaseUnits(value: bigint, decimals: number): string {
+  const negative = value < BigInt(0);
+  const digits = (negative ? -value : value).toString().padStart(decimals + 1, "0");
+  const whole = digits.slice(0, digits.length - decimals);
+  const fraction = digits.slice(digits.length - decimals).replace(/0+$/, "");
+  return `${negative ? "-" : ""}${whole}${fraction ? `.${fraction}` : ""}`;
+}
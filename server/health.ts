@@ -0,0 +1,160 @@
+import type { Express } from "express";
+import { pool } from "./db";
+import { getChainAdapters } from "./chains/registry";
+import type { ChainAdapter } from "./chains/types";
+import { logger } from "./logger";
+
+const CHECK_TIMEOUT_MS = 5000;
+// Probes hit paid RPC endpoints, so frequent polling shares one recent report.
+const READINESS_CACHE_MS = 10000;
+// Finalized heads lag the tip by design; these allow for that plus a slow node.
+const MAX_HEAD_AGE_SECONDS: Record<ChainAdapter["family"], number> = {
+  solana: 120,
+  evm: 300,
+};
+
+const log = logger.child({ component: "health" });
+
+type ComponentStatus = "ok" | "degraded" | "unavailable";
+
+interface DatabaseHealth {
+  status: ComponentStatus;
+  latencyMs: number;
+  error?: string;
+}
+
+interface ChainHealth {
+  id: string;
+  name: string;
+  status: ComponentStatus;
+  rpc: {
+    status: ComponentStatus;
+    latencyMs: number;
+    height?: number;
+    headAgeSeconds?: number | null;
+    error?: string;
+  };
+  poolWallet: {
+    status: ComponentStatus;
+    address: string | null;
+  };
+}
+
+interface AiHealth {
+  status: ComponentStatus;
+  configured: boolean;
+}
+
+export interface ReadinessReport {
+  status: ComponentStatus;
+  checkedAt: Date;
+  database: DatabaseHealth;
+  chains: ChainHealth[];
+  ai: AiHealth;
+}
+
+let cachedReport: { report: Promise<ReadinessReport>; expiresAt: number } | null = null;
+
+function withTimeout<T>(promise: Promise<T>, label: string): Promise<T> {
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`${label} timed out after ${CHECK_TIMEOUT_MS}ms`)), CHECK_TIMEOUT_MS);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+async function checkDatabase(): Promise<DatabaseHealth> {
+  const start = Date.now();
+  try {
+    await withTimeout(pool.query("SELECT 1"), "Database check");
+    return { status: "ok", latencyMs: Date.now() - start };
+  } catch (error: any) {
+    log.warn("Database readiness check failed", { error });
+    return { status: "unavailable", latencyMs: Date.now() - start, error: error?.message || "Database unreachable" };
+  }
+}
+
+// A chain is only usable for the mixer when its RPC answers with a fresh head and the pool
+// wallet loaded; a stale head still serves reads, so it counts as degraded.
+async function checkChain(adapter: ChainAdapter): Promise<ChainHealth> {
+  const poolAddress = adapter.getPoolAddress();
+  const poolWallet: ChainHealth["poolWallet"] = {
+    status: poolAddress ? "ok" : "unavailable",
+    address: poolAddress,
+  };
+
+  const start = Date.now();
+  let rpc: ChainHealth["rpc"];
+  try {
+    const head = await withTimeout(adapter.getChainHead(), `${adapter.name} RPC check`);
+    const headAgeSeconds = head.timestamp === null ? null : Math.max(Math.floor(Date.now() / 1000) - head.timestamp, 0);
+    const stale = headAgeSeconds === null || headAgeSeconds > MAX_HEAD_AGE_SECONDS[adapter.family];
+    rpc = {
+      status: stale ? "degraded" : "ok",
+      latencyMs: Date.now() - start,
+      height: head.height,
+      headAgeSeconds,
+    };
+  } catch (error: any) {
+    log.warn("RPC readiness check failed", { chain: adapter.id, error });
+    rpc = { status: "unavailable", latencyMs: Date.now() - start, error: error?.message || "RPC unreachable" };
+  }
+
+  let status: ComponentStatus = "ok";
+  if (rpc.status === "unavailable" || poolWallet.status === "unavailable") {
+    status = "unavailable";
+  } else if (rpc.status === "degraded") {
+    status = "degraded";
+  }
+
+  return { id: adapter.id, name: adapter.name, status, rpc, poolWallet };
+}
+
+function checkAi(): AiHealth {
+  const configured = !!process.env.AI_INTEGRATIONS_OPENAI_API_KEY;
+  return { status: configured ? "ok" : "unavailable", configured };
+}
+
+export function getReadinessReport(): Promise<ReadinessReport> {
+  if (!cachedReport || cachedReport.expiresAt <= Date.now()) {
+    cachedReport = { report: buildReadinessReport(), expiresAt: Date.now() + READINESS_CACHE_MS };
+  }
+  return cachedReport.report;
+}
+
+async function buildReadinessReport(): Promise<ReadinessReport> {
+  const [database, chains] = await Promise.all([
+    checkDatabase(),
+    Promise.all(getChainAdapters().map(checkChain)),
+  ]);
+  const ai = checkAi();
+
+  // Without the database nothing works; anything else only takes out the features that need it.
+  let status: ComponentStatus = "ok";
+  if (database.status !== "ok") {
+    status = "unavailable";
+  } else if (chains.some((chain) => chain.status !== "ok") || ai.status !== "ok") {
+    status = "degraded";
+  }
+
+  return { status, checkedAt: new Date(), database, chains, ai };
+}
+
+export function setupHealthChecks(app: Express): void {
+  // Liveness: the process is up and serving requests. Dependencies are checked by /readyz.
+  app.get("/healthz", (_req, res) => {
+    res.json({ status: "ok", uptimeSeconds: Math.floor(process.uptime()) });
+  });
+
+  // Readiness: 503 only when the server can't serve anything; a degraded report still returns
+  // 200 so callers can disable the affected chains or features.
+  app.get("/readyz", async (_req, res) => {
+    try {
+      const report = await getReadinessReport();
+      res.status(report.status === "unavailable" ? 503 : 200).json(report);
+    } catch (error) {
+      log.error("Error building readiness report", { error });
+      res.status(503).json({ status: "unavailable", error: "Failed to check readiness" });
+    }
+  });
+}
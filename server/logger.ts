@@ -0,0 +1,159 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { randomUUID } from "crypto";
+import type { Request, Response, NextFunction } from "express";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+export type LogFields = Record<string, unknown>;
+
+const LOG_LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+function resolveLogLevel(): LogLevel {
+  const configured = process.env.LOG_LEVEL?.toLowerCase();
+  if (configured && configured in LOG_LEVELS) {
+    return configured as LogLevel;
+  }
+  return process.env.NODE_ENV === "production" ? "info" : "debug";
+}
+
+const minLevel = LOG_LEVELS[resolveLogLevel()];
+
+// Field names are matched case-insensitively. Secrets are dropped entirely; addresses and
+// signatures keep a short prefix/suffix so entries can still be correlated by hand.
+const SECRET_FIELDS = /^(password|secret|.*privatekey|apikey|authorization|cookie|sessionsecret|rawbody)$/i;
+const ADDRESS_FIELDS = /(address|wallet|sender|recipient|destination|^from$|^to$)/i;
+const SIGNATURE_FIELDS = /(signature|txhash)/i;
+
+function mask(value: string, keep: number): string {
+  return value.length <= keep * 2 ? "[REDACTED]" : `${value.slice(0, keep)}…${value.slice(-keep)}`;
+}
+
+// RPC and webhook URLs often carry an API key in the path or query string.
+export function redactUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.protocol}//${parsed.host}`;
+  } catch {
+    return "[REDACTED]";
+  }
+}
+
+function redact(key: string, value: unknown, depth = 0): unknown {
+  if (SECRET_FIELDS.test(key)) return "[REDACTED]";
+  if (typeof value === "string") {
+    if (SIGNATURE_FIELDS.test(key)) return mask(value, 6);
+    if (ADDRESS_FIELDS.test(key)) return mask(value, 4);
+    return value;
+  }
+  if (typeof value === "bigint") return value.toString();
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) {
+    return depth > 4 ? "[Array]" : value.map((item) => redact(key, item, depth + 1));
+  }
+  if (value && typeof value === "object") {
+    if (depth > 4) return "[Object]";
+    const out: LogFields = {};
+    for (const [k, v] of Object.entries(value)) {
+      out[k] = redact(k, v, depth + 1);
+    }
+    return out;
+  }
+  return value;
+}
+
+interface LogContext {
+  requestId: string;
+}
+
+const context = new AsyncLocalStorage<LogContext>();
+
+export function newRequestId(): string {
+  return randomUUID();
+}
+
+export function getRequestId(): string | undefined {
+  return context.getStore()?.requestId;
+}
+
+// Runs fn with requestId attached to every log entry written underneath it, including from
+// work it starts without awaiting.
+export function withRequestId<T>(requestId: string, fn: () => T): T {
+  return context.run({ requestId }, fn);
+}
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  child(bindings: LogFields): Logger;
+}
+
+function write(level: LogLevel, bindings: LogFields, message: string, fields?: LogFields): void {
+  if (LOG_LEVELS[level] < minLevel) return;
+
+  const entry = redact("", {
+    time: new Date().toISOString(),
+    level,
+    requestId: getRequestId(),
+    ...bindings,
+    ...fields,
+    msg: message,
+  });
+
+  const line = JSON.stringify(entry) + "\n";
+  if (LOG_LEVELS[level] >= LOG_LEVELS.warn) {
+    process.stderr.write(line);
+  } else {
+    process.stdout.write(line);
+  }
+}
+
+function createLogger(bindings: LogFields): Logger {
+  return {
+    debug: (message, fields) => write("debug", bindings, message, fields),
+    info: (message, fields) => write("info", bindings, message, fields),
+    warn: (message, fields) => write("warn", bindings, message, fields),
+    error: (message, fields) => write("error", bindings, message, fields),
+    child: (extra) => createLogger({ ...bindings, ...extra }),
+  };
+}
+
+export const logger = createLogger({});
+
+const REQUEST_ID_HEADER = "X-Request-Id";
+const VALID_REQUEST_ID = /^[A-Za-z0-9._-]{8,128}$/;
+
+// Accepts a well-formed upstream X-Request-Id so ids line up with proxy logs, and logs one
+// entry per API response. Response bodies are never logged.
+export function requestLogger() {
+  const log = logger.child({ component: "http" });
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const incoming = req.get(REQUEST_ID_HEADER);
+    const requestId = incoming && VALID_REQUEST_ID.test(incoming) ? incoming : newRequestId();
+    res.setHeader(REQUEST_ID_HEADER, requestId);
+
+    const start = Date.now();
+    res.on("finish", () => {
+      if (!req.path.startsWith("/api")) return;
+      const fields = {
+        requestId,
+        method: req.method,
+        // The matched route pattern, so addresses in path params stay out of the logs.
+        path: req.route?.path ?? req.path,
+        status: res.statusCode,
+        durationMs: Date.now() - start,
+      };
+      if (res.statusCode >= 500) {
+        log.error("Request failed", fields);
+      } else {
+        log.info("Request completed", fields);
+      }
+    });
+
+    withRequestId(requestId, next);
+  };
+}
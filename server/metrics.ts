@@ -0,0 +1,175 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import { timingSafeEqual } from "crypto";
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from "prom-client";
+
+export const metricsRegistry = new Registry();
+collectDefaultMetrics({ register: metricsRegistry });
+
+const httpRequestDuration = new Histogram({
+  name: "veilra_http_request_duration_seconds",
+  help: "API request latency by route",
+  labelNames: ["method", "route", "status_code"] as const,
+  buckets: [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+  registers: [metricsRegistry],
+});
+
+const rpcRequests = new Counter({
+  name: "veilra_rpc_requests_total",
+  help: "JSON-RPC requests sent to chain nodes",
+  labelNames: ["chain", "method", "outcome"] as const,
+  registers: [metricsRegistry],
+});
+
+const rpcRequestDuration = new Histogram({
+  name: "veilra_rpc_request_duration_seconds",
+  help: "JSON-RPC request latency",
+  labelNames: ["chain", "method"] as const,
+  buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+  registers: [metricsRegistry],
+});
+
+export const payoutAttempts = new Counter({
+  name: "veilra_payout_attempts_total",
+  help: "Mixer payout attempts by outcome",
+  labelNames: ["chain", "outcome"] as const,
+  registers: [metricsRegistry],
+});
+
+export const poolBalance = new Gauge({
+  name: "veilra_pool_balance",
+  help: "Pool wallet balance in whole units, as of the last treasury check",
+  labelNames: ["chain", "symbol"] as const,
+  registers: [metricsRegistry],
+});
+
+const openaiRequests = new Counter({
+  name: "veilra_openai_requests_total",
+  help: "OpenAI API calls by operation and outcome",
+  labelNames: ["operation", "outcome"] as const,
+  registers: [metricsRegistry],
+});
+
+const openaiTokens = new Counter({
+  name: "veilra_openai_tokens_total",
+  help: "OpenAI tokens consumed",
+  labelNames: ["operation", "type"] as const,
+  registers: [metricsRegistry],
+});
+
+const openaiRequestDuration = new Histogram({
+  name: "veilra_openai_request_duration_seconds",
+  help: "OpenAI API call latency",
+  labelNames: ["operation"] as const,
+  buckets: [0.5, 1, 2.5, 5, 10, 20, 40, 60],
+  registers: [metricsRegistry],
+});
+
+export const battleSchedulerTickDuration = new Histogram({
+  name: "veilra_battle_scheduler_tick_duration_seconds",
+  help: "Duration of a battle scheduler pass",
+  buckets: [1, 5, 10, 30, 60, 120, 300],
+  registers: [metricsRegistry],
+});
+
+export const priceCacheLookups = new Counter({
+  name: "veilra_price_cache_lookups_total",
+  help: "Price service cache lookups by result",
+  labelNames: ["result"] as const,
+  registers: [metricsRegistry],
+});
+
+export const priceFallbacks = new Counter({
+  name: "veilra_price_fallbacks_total",
+  help: "Prices served from a stale cache entry or the static fallback table after a CoinGecko failure",
+  labelNames: ["source"] as const,
+  registers: [metricsRegistry],
+});
+
+// "batch" for batched requests so method labels stay bounded.
+function rpcMethod(body: unknown): string {
+  try {
+    const text = typeof body === "string" ? body : body instanceof Uint8Array ? Buffer.from(body).toString("utf8") : "";
+    const payload = JSON.parse(text);
+    if (Array.isArray(payload)) return "batch";
+    return typeof payload?.method === "string" ? payload.method : "unknown";
+  } catch {
+    return "unknown";
+  }
+}
+
+// Times a single HTTP round trip to an RPC node. HTTP failures and non-2xx responses count as errors;
+// JSON-RPC errors returned with a 200 are left to the caller.
+export async function observeRpc<T extends { ok?: boolean; statusCode?: number }>(
+  chain: string,
+  body: unknown,
+  send: () => Promise<T>
+): Promise<T> {
+  const method = rpcMethod(body);
+  const end = rpcRequestDuration.startTimer({ chain, method });
+  try {
+    const response = await send();
+    const failed = response.ok === false || (response.statusCode !== undefined && response.statusCode >= 400);
+    rpcRequests.inc({ chain, method, outcome: failed ? "error" : "success" });
+    return response;
+  } catch (error) {
+    rpcRequests.inc({ chain, method, outcome: "error" });
+    throw error;
+  } finally {
+    end();
+  }
+}
+
+interface OpenAIUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+}
+
+export async function observeOpenAI<T>(operation: string, request: Promise<T>): Promise<T> {
+  const end = openaiRequestDuration.startTimer({ operation });
+  try {
+    const response = await request;
+    openaiRequests.inc({ operation, outcome: "success" });
+    const usage = (response as { usage?: OpenAIUsage | null }).usage;
+    if (usage) {
+      openaiTokens.inc({ operation, type: "prompt" }, usage.prompt_tokens);
+      openaiTokens.inc({ operation, type: "completion" }, usage.completion_tokens);
+    }
+    return response;
+  } catch (error) {
+    openaiRequests.inc({ operation, outcome: "error" });
+    throw error;
+  } finally {
+    end();
+  }
+}
+
+function isAuthorizedScrape(req: Request): boolean {
+  const token = process.env.METRICS_TOKEN;
+  if (!token) return true;
+
+  const expected = Buffer.from(`Bearer ${token}`);
+  const supplied = Buffer.from(req.get("authorization") ?? "");
+  return supplied.length === expected.length && timingSafeEqual(supplied, expected);
+}
+
+// Records API latency by matched route pattern and serves /metrics. Set METRICS_TOKEN to
+// require a bearer token from the scraper.
+export function setupMetrics(app: Express): void {
+  app.use((req: Request, res: Response, next: NextFunction) => {
+    if (!req.path.startsWith("/api")) return next();
+
+    const end = httpRequestDuration.startTimer({ method: req.method });
+    res.on("finish", () => {
+      end({ route: req.route?.path ?? "unmatched", status_code: res.statusCode });
+    });
+    next();
+  });
+
+  app.get("/metrics", async (req, res) => {
+    if (!isAuthorizedScrape(req)) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+    res.setHeader("Content-Type", metricsRegistry.contentType);
+    res.send(await metricsRegistry.metrics());
+  });
+}
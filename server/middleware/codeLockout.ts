@@ -0,0 +1,69 @@
+import type { Request, Response, NextFunction } from "express";
+import { storage } from "../storage";
+import { logger } from "../logger";
+
+export type CodeAction = "check" | "claim";
+
+// Unknown codes are what guessing produces, so only those count toward a lockout; other
+// failures are kept for audit. After FREE_FAILURES in the window, each further miss doubles
+// the wait from the last one.
+const LOCKOUT_STATUS = 404;
+const LOCKOUT_WINDOW_MS = 24 * 60 * 60 * 1000;
+const FREE_FAILURES = 5;
+const BASE_LOCKOUT_MS = 60 * 1000;
+const MAX_LOCKOUT_MS = 24 * 60 * 60 * 1000;
+
+const log = logger.child({ component: "CodeLockout" });
+
+function getClientIp(req: Request): string {
+  return req.ip ?? "unknown";
+}
+
+export async function codeLockout(req: Request, res: Response, next: NextFunction) {
+  try {
+    const wallet = req.session?.wallet?.address ?? req.body?.claimerAddress;
+    const stats = await storage.getGiftVaultCodeFailureStats(
+      getClientIp(req),
+      typeof wallet === "string" && wallet ? wallet : undefined,
+      LOCKOUT_STATUS,
+      new Date(Date.now() - LOCKOUT_WINDOW_MS)
+    );
+
+    if (stats.count >= FREE_FAILURES && stats.lastFailedAt) {
+      const lockoutMs = Math.min(BASE_LOCKOUT_MS * 2 ** (stats.count - FREE_FAILURES), MAX_LOCKOUT_MS);
+      const retryAfter = Math.ceil((stats.lastFailedAt.getTime() + lockoutMs - Date.now()) / 1000);
+      if (retryAfter > 0) {
+        res.setHeader("Retry-After", retryAfter);
+        return res.status(429).json({ error: "Too many failed attempts", retryAfter });
+      }
+    }
+
+    next();
+  } catch (error) {
+    // Fail open, like the rate limiter; the rate limit still bounds guessing.
+    log.error("Error checking code lockout", { error });
+    next();
+  }
+}
+
+// Pass walletAddress only once the wallet has proven control with a signature, so nobody can
+// lock out someone else's wallet by failing in its name.
+export async function recordCodeFailure(
+  req: Request,
+  action: CodeAction,
+  status: number,
+  reason: string,
+  walletAddress?: string
+): Promise<void> {
+  try {
+    await storage.createGiftVaultCodeFailure({
+      action,
+      ipAddress: getClientIp(req),
+      walletAddress: walletAddress ?? req.session?.wallet?.address ?? null,
+      status,
+      reason,
+    });
+  } catch (error) {
+    log.error("Failed to record code failure", { action, error });
+  }
+}
@@ -0,0 +1,78 @@
+import type { Request, Response, NextFunction } from "express";
+import { createHash } from "crypto";
+import { storage } from "../storage";
+import { logger } from "../logger";
+
+const IDEMPOTENCY_HEADER = "idempotency-key";
+const MAX_KEY_LENGTH = 255;
+
+const log = logger.child({ component: "Idempotency" });
+
+function hashRequest(req: Request): string {
+  return createHash("sha256")
+    .update(JSON.stringify(req.body ?? {}))
+    .digest("hex");
+}
+
+// Replays the stored response when a request is retried with the same
+// Idempotency-Key. Requests without the header pass through untouched.
+export async function idempotency(req: Request, res: Response, next: NextFunction) {
+  const key = req.header(IDEMPOTENCY_HEADER);
+  if (!key) {
+    return next();
+  }
+
+  if (key.length > MAX_KEY_LENGTH) {
+    return res.status(400).json({ error: "Idempotency-Key is too long" });
+  }
+
+  const scope = `${req.method} ${req.baseUrl}${req.path}`;
+  const requestHash = hashRequest(req);
+
+  try {
+    const record = await storage.createIdempotencyKey({ key, scope, requestHash });
+
+    if (!record) {
+      const existing = await storage.getIdempotencyKey(key, scope);
+      if (!existing) {
+        return res.status(409).json({ error: "Idempotency-Key conflict, retry the request" });
+      }
+      if (existing.requestHash !== requestHash) {
+        return res.status(422).json({ error: "Idempotency-Key was already used with a different request body" });
+      }
+      if (existing.responseStatus === null) {
+        return res.status(409).json({ error: "A request with this Idempotency-Key is still in progress" });
+      }
+      res.setHeader("Idempotent-Replayed", "true");
+      return res.status(existing.responseStatus).json(existing.responseBody);
+    }
+
+    let stored = false;
+    const originalResJson = res.json;
+    res.json = function (bodyJson, ...args) {
+      stored = true;
+      // Server errors are not cached so the client can safely retry them.
+      const pending = res.statusCode >= 500
+        ? storage.deleteIdempotencyKey(record.id)
+        : storage.completeIdempotencyKey(record.id, res.statusCode, bodyJson);
+      pending.catch((error) => {
+        log.error("Failed to store idempotent response", { error });
+      });
+      return originalResJson.apply(res, [bodyJson, ...args]);
+    };
+
+    // Release the key if the handler ended without a JSON response.
+    res.on("close", () => {
+      if (!stored) {
+        storage.deleteIdempotencyKey(record.id).catch((error) => {
+          log.error("Failed to release idempotency key", { error });
+        });
+      }
+    });
+
+    next();
+  } catch (error) {
+    log.error("Error handling idempotency key", { error });
+    res.status(500).json({ error: "Failed to process Idempotency-Key" });
+  }
+}
@@ -0,0 +1,133 @@
+import type { Request, Response, NextFunction } from "express";
+import { storage } from "../storage";
+import { hasRole } from "../auth";
+import { logger } from "../logger";
+
+interface RateLimitRule {
+  windowMs: number;
+  maxPerIp: number;
+  // Applies to requests from a signed-in wallet. Omit for groups where there is none.
+  maxPerWallet?: number;
+}
+
+const log = logger.child({ component: "RateLimit" });
+
+export type RateLimitGroup = "auth" | "ai" | "mixer" | "rpc" | "vault" | "code";
+
+const RATE_LIMIT_GROUPS: Record<RateLimitGroup, RateLimitRule> = {
+  // Login and wallet sign-in attempts.
+  auth: { windowMs: 60 * 1000, maxPerIp: 10 },
+  // Routes that call OpenAI.
+  ai: { windowMs: 60 * 60 * 1000, maxPerIp: 20, maxPerWallet: 20 },
+  // Quote, session and deposit confirmation routes.
+  mixer: { windowMs: 10 * 60 * 1000, maxPerIp: 60, maxPerWallet: 20 },
+  // Lookups that hit paid RPC endpoints.
+  rpc: { windowMs: 60 * 1000, maxPerIp: 60, maxPerWallet: 30 },
+  // Gift vault creation, deposits and reclaims.
+  vault: { windowMs: 10 * 60 * 1000, maxPerIp: 30, maxPerWallet: 10 },
+  // Gift vault code checks and claims; failed codes also count toward codeLockout.
+  code: { windowMs: 10 * 60 * 1000, maxPerIp: 20, maxPerWallet: 10 },
+};
+
+interface BucketState {
+  count: number;
+  resetAt: Date;
+}
+
+interface RateLimitStore {
+  hit(key: string, windowMs: number): Promise<BucketState>;
+}
+
+class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, BucketState>();
+
+  constructor() {
+    setInterval(() => {
+      const now = Date.now();
+      for (const [key, bucket] of Array.from(this.buckets.entries())) {
+        if (bucket.resetAt.getTime() <= now) this.buckets.delete(key);
+      }
+    }, 60 * 1000);
+  }
+
+  async hit(key: string, windowMs: number): Promise<BucketState> {
+    const now = Date.now();
+    const bucket = this.buckets.get(key);
+    if (!bucket || bucket.resetAt.getTime() <= now) {
+      const fresh = { count: 1, resetAt: new Date(now + windowMs) };
+      this.buckets.set(key, fresh);
+      return fresh;
+    }
+    bucket.count += 1;
+    return bucket;
+  }
+}
+
+// Shares buckets across instances; expired rows are cleared periodically.
+class PostgresRateLimitStore implements RateLimitStore {
+  constructor() {
+    setInterval(() => {
+      storage.deleteExpiredRateLimitBuckets().catch((error) => {
+        log.error("Failed to clear expired buckets", { error });
+      });
+    }, 10 * 60 * 1000);
+  }
+
+  hit(key: string, windowMs: number): Promise<BucketState> {
+    return storage.hitRateLimitBucket(key, windowMs);
+  }
+}
+
+const store: RateLimitStore = process.env.RATE_LIMIT_STORE === "postgres"
+  ? new PostgresRateLimitStore()
+  : new MemoryRateLimitStore();
+
+// Only the signed-in wallet: an address named in the request proves nothing, and keying on it
+// would let anyone use up someone else's bucket. Other requests are limited by IP alone.
+function getWalletKey(req: Request): string | undefined {
+  const address = req.session?.wallet?.address;
+  return address ? address.toLowerCase() : undefined;
+}
+
+export function rateLimit(group: RateLimitGroup) {
+  const rule = RATE_LIMIT_GROUPS[group];
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (hasRole(req.user, "admin")) {
+      return next();
+    }
+
+    try {
+      const buckets: { state: BucketState; limit: number }[] = [
+        { state: await store.hit(`${group}:ip:${req.ip}`, rule.windowMs), limit: rule.maxPerIp },
+      ];
+
+      const wallet = getWalletKey(req);
+      if (wallet && rule.maxPerWallet !== undefined) {
+        buckets.push({
+          state: await store.hit(`${group}:wallet:${wallet}`, rule.windowMs),
+          limit: rule.maxPerWallet,
+        });
+      }
+
+      // Report whichever bucket is closest to its limit.
+      const tightest = buckets.reduce((a, b) => (b.limit - b.state.count < a.limit - a.state.count ? b : a));
+      const resetSeconds = Math.max(Math.ceil((tightest.state.resetAt.getTime() - Date.now()) / 1000), 0);
+
+      res.setHeader("RateLimit-Limit", tightest.limit);
+      res.setHeader("RateLimit-Remaining", Math.max(tightest.limit - tightest.state.count, 0));
+      res.setHeader("RateLimit-Reset", resetSeconds);
+
+      if (tightest.state.count > tightest.limit) {
+        res.setHeader("Retry-After", resetSeconds);
+        return res.status(429).json({ error: "Too many requests", retryAfter: resetSeconds });
+      }
+
+      next();
+    } catch (error) {
+      // Fail open: a store outage shouldn't take the API down with it.
+      log.error("Error checking rate limit", { error });
+      next();
+    }
+  };
+}
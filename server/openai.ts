@@ -0,0 +1,12 @@
+import OpenAI from "openai";
+import { logger } from "./logger";
+
+const log = logger.child({ component: "OpenAI" });
+
+// Lazy OpenAI client initialization to ensure env vars are available
+export function getOpenAIClient(): OpenAI {
+  const apiKey = process.env.AI_INTEGRATIONS_OPENAI_API_KEY;
+  const baseURL = process.env.AI_INTEGRATIONS_OPENAI_BASE_URL;
+  log.debug("OpenAI client configured", { baseUrlSet: !!baseURL, apiKeySet: !!apiKey });
+  return new OpenAI({ apiKey, baseURL });
+}
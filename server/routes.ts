@@ -18,508 +18,332 @@ import {
   insertTradingBattleSchema,
   insertBattlePortfolioSchema,
   insertBattleTradeSchema,
+  giftVaultSplitModes,
+  type MixerSession,
 } from "@shared/schema";
 import { getCryptoPrice } from "./services/priceService";
 import { db } from "./db";
 import { eq, desc, sql, count, avg } from "drizzle-orm";
-import OpenAI from "openai";
 import { z } from "zod";
-import { 
-  Connection, 
-  PublicKey, 
-  LAMPORTS_PER_SOL, 
-  Keypair, 
-  Transaction, 
-  SystemProgram, 
-  sendAndConfirmTransaction 
-} from "@solana/web3.js";
-import { ethers } from "ethers";
-import { getSecureConfig } from "./secure-config";
+import { getChainAdapter, getGiftVaultToken, solanaAdapter } from "./chains/registry";
+import { fromBaseUnits, isDecimalAmount } from "./chains/units";
+import type { PayoutResult, PayoutSignedCallback } from "./chains/types";
 import { startBattleScheduler } from "./services/battleScheduler";
-
-const secureConfig = getSecureConfig();
-const RPC_ENDPOINT = secureConfig.SOLANA_RPC_URL || "https://api.mainnet-beta.solana.com";
-const connection = new Connection(RPC_ENDPOINT, "confirmed");
-console.log("Solana RPC connected:", RPC_ENDPOINT.substring(0, 40) + "...");
-
-const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
-
-function decodeBase58(str: string): Uint8Array {
-  const bytes: number[] = [0];
-  for (let i = 0; i < str.length; i++) {
-    const char = str[i];
-    const value = BASE58_ALPHABET.indexOf(char);
-    if (value === -1) {
-      throw new Error(`Invalid base58 character: ${char}`);
-    }
-    for (let j = 0; j < bytes.length; j++) {
-      bytes[j] *= 58;
-    }
-    bytes[0] += value;
-    let carry = 0;
-    for (let j = 0; j < bytes.length; j++) {
-      bytes[j] += carry;
-      carry = Math.floor(bytes[j] / 256);
-      bytes[j] %= 256;
-    }
-    while (carry) {
-      bytes.push(carry % 256);
-      carry = Math.floor(carry / 256);
-    }
-  }
-  for (let i = 0; i < str.length && str[i] === '1'; i++) {
-    bytes.push(0);
-  }
-  return new Uint8Array(bytes.reverse());
-}
-
-let poolWallet: Keypair | null = null;
-let poolAddress: string | null = null;
-let poolInitialized = false;
-
-function initializePoolWallet() {
-  if (poolInitialized) return;
-  
-  const privateKeyBase58 = secureConfig.POOL_WALLET_PRIVATE_KEY;
-  console.log("Initializing pool wallet, key available:", !!privateKeyBase58);
-  
-  if (privateKeyBase58) {
-    try {
-      const secretKey = decodeBase58(privateKeyBase58);
-      poolWallet = Keypair.fromSecretKey(secretKey);
-      poolAddress = poolWallet.publicKey.toBase58();
-      console.log("Pool wallet initialized:", poolAddress);
-      poolInitialized = true;
-    } catch (error) {
-      console.error("Failed to initialize pool wallet:", error);
-    }
-  } else {
-    console.warn("POOL_WALLET_PRIVATE_KEY not set - mixer functionality disabled");
-  }
-}
-
-initializePoolWallet();
-
-const ETH_RPC_URL = secureConfig.ETH_RPC_URL || "https://eth.llamarpc.com";
-const BNB_RPC_URL = secureConfig.BNB_RPC_URL || "https://bsc-dataseed.binance.org";
-
-const ethProvider = new ethers.JsonRpcProvider(ETH_RPC_URL);
-const bnbProvider = new ethers.JsonRpcProvider(BNB_RPC_URL);
-console.log("ETH RPC connected:", ETH_RPC_URL.substring(0, 40) + "...");
-console.log("BNB RPC connected:", BNB_RPC_URL.substring(0, 40) + "...");
-
-let ethPoolWallet: ethers.Wallet | null = null;
-let ethPoolAddress: string | null = null;
-let bnbPoolWallet: ethers.Wallet | null = null;
-let bnbPoolAddress: string | null = null;
-
-function initializeEthPoolWallet() {
-  const privateKey = secureConfig.ETH_POOL_WALLET_PRIVATE_KEY;
-  if (privateKey) {
-    try {
-      ethPoolWallet = new ethers.Wallet(privateKey, ethProvider);
-      ethPoolAddress = ethPoolWallet.address;
-      console.log("ETH Pool wallet initialized:", ethPoolAddress);
-    } catch (error) {
-      console.error("Failed to initialize ETH pool wallet:", error);
-    }
-  } else {
-    console.warn("ETH_POOL_WALLET_PRIVATE_KEY not set - ETH mixer functionality disabled");
-  }
-}
-
-function initializeBnbPoolWallet() {
-  const privateKey = secureConfig.BNB_POOL_WALLET_PRIVATE_KEY;
-  if (privateKey) {
-    try {
-      bnbPoolWallet = new ethers.Wallet(privateKey, bnbProvider);
-      bnbPoolAddress = bnbPoolWallet.address;
-      console.log("BNB Pool wallet initialized:", bnbPoolAddress);
-    } catch (error) {
-      console.error("Failed to initialize BNB pool wallet:", error);
-    }
-  } else {
-    console.warn("BNB_POOL_WALLET_PRIVATE_KEY not set - BNB mixer functionality disabled");
+import { startPayoutWorker } from "./services/payoutWorker";
+import { startDepositWatcher, registerDepositHandler } from "./services/depositWatcher";
+import { confirmMixerDeposit, matchMixerDeposit } from "./services/depositService";
+import {
+  DEFAULT_VAULT_EXPIRY_DAYS,
+  MAX_VAULT_CLAIMS,
+  MAX_VAULT_EXPIRY_DAYS,
+  claimGiftVault,
+  confirmGiftVaultDeposit,
+  createGiftVault,
+  getVaultStatus,
+  findGiftVaultByCode,
+  matchGiftVaultDeposit,
+  reclaimGiftVault,
+} from "./services/giftVaultService";
+import { startGiftVaultSweeper } from "./services/giftVaultSweeper";
+import { idempotency } from "./middleware/idempotency";
+import { rateLimit } from "./middleware/rateLimit";
+import { codeLockout, recordCodeFailure } from "./middleware/codeLockout";
+import { setupAuth, requireRole } from "./auth";
+import { setupWalletAuth, requireWallet, isSameWallet, hasCaseInsensitiveAddress } from "./walletAuth";
+import { calculateQuote, createQuote, redeemQuote } from "./services/quoteService";
+import { startSessionSweeper } from "./services/sessionSweeper";
+import { screenAddresses, describeMatches } from "./screening";
+import { checkPoolCapacity, getTreasuryReport, startTreasuryMonitor } from "./services/treasuryService";
+import { getLastReconciliation, reconcileLedger, startReconciliationJob } from "./services/reconciliation";
+import { logger } from "./logger";
+import { observeOpenAI } from "./metrics";
+import { getOpenAIClient } from "./openai";
+
+const MIXER_SESSION_TTL_MS = 30 * 60 * 1000; // 30 minutes
+
+const log = logger.child({ component: "api" });
+
+async function executeMixerPayout(session: MixerSession, onSigned: PayoutSignedCallback): Promise<PayoutResult> {
+  const adapter = getChainAdapter(session.chain);
+  if (!adapter) {
+    throw new Error("Unsupported chain for payout");
   }
-}
-
-initializeEthPoolWallet();
-initializeBnbPoolWallet();
-
-async function verifyTransaction(
-  signature: string, 
-  fromAddress: string, 
-  toAddress: string, 
-  amount: string
-): Promise<{ valid: boolean; error?: string }> {
-  try {
-    const txInfo = await connection.getTransaction(signature, {
-      maxSupportedTransactionVersion: 0,
-    });
-
-    if (!txInfo) {
-      return { valid: false, error: "Transaction not found on chain" };
-    }
-
-    if (txInfo.meta?.err) {
-      return { valid: false, error: "Transaction failed on chain" };
-    }
 
-    const accountKeys = txInfo.transaction.message.getAccountKeys();
-    const fromKey = accountKeys.get(0);
-    const toKey = accountKeys.get(1);
-
-    if (!fromKey || fromKey.toBase58() !== fromAddress) {
-      return { valid: false, error: "Sender address mismatch" };
-    }
-
-    if (!toKey || toKey.toBase58() !== toAddress) {
-      return { valid: false, error: "Recipient address mismatch" };
-    }
-
-    const preBalances = txInfo.meta?.preBalances || [];
-    const postBalances = txInfo.meta?.postBalances || [];
-    const transferredLamports = preBalances[0] - postBalances[0] - (txInfo.meta?.fee || 0);
-    const expectedLamports = Math.floor(parseFloat(amount) * LAMPORTS_PER_SOL);
-
-    if (Math.abs(transferredLamports - expectedLamports) > 1000) {
-      return { valid: false, error: "Amount mismatch" };
-    }
-
-    return { valid: true };
-  } catch (error) {
-    console.error("Error verifying transaction:", error);
-    return { valid: false, error: "Failed to verify transaction on chain" };
+  const token = session.tokenMint ? adapter.getToken(session.tokenMint) : undefined;
+  if (session.tokenMint && !token) {
+    throw new Error("Unsupported token for payout");
   }
-}
 
-async function verifyEthTransaction(
-  txHash: string,
-  fromAddress: string,
-  toAddress: string,
-  amount: string,
-  provider: ethers.JsonRpcProvider
-): Promise<{ valid: boolean; error?: string; actualSender?: string }> {
-  try {
-    const tx = await provider.getTransaction(txHash);
-    if (!tx) {
-      return { valid: false, error: "Transaction not found on chain" };
+  let payoutAmount = session.payoutAmount;
+  if (!payoutAmount) {
+    // Sessions created before quotes existed are priced at payout time.
+    const { quote, error } = await calculateQuote(adapter, session.amount, token);
+    if (!quote) {
+      throw new Error(error);
     }
-
-    const receipt = await provider.getTransactionReceipt(txHash);
-    if (!receipt || receipt.status === 0) {
-      return { valid: false, error: "Transaction failed on chain" };
-    }
-
-    if (fromAddress !== "pending" && tx.from.toLowerCase() !== fromAddress.toLowerCase()) {
-      return { valid: false, error: "Sender address mismatch" };
-    }
-
-    if (tx.to?.toLowerCase() !== toAddress.toLowerCase()) {
-      return { valid: false, error: "Recipient address mismatch" };
-    }
-
-    const expectedWei = ethers.parseEther(amount);
-    const tolerance = ethers.parseEther("0.0001");
-    const diff = tx.value > expectedWei ? tx.value - expectedWei : expectedWei - tx.value;
-    if (diff > tolerance) {
-      return { valid: false, error: "Amount mismatch", actualSender: tx.from };
-    }
-
-    return { valid: true, actualSender: tx.from };
-  } catch (error) {
-    console.error("Error verifying ETH/BNB transaction:", error);
-    return { valid: false, error: "Failed to verify transaction on chain" };
-  }
-}
-
-const NETWORK_FEE_LAMPORTS = 5000;
-
-async function sendFromPool(recipientAddress: string, amountSol: number): Promise<string> {
-  if (!poolWallet) {
-    throw new Error("Pool wallet not initialized");
-  }
-
-  const recipientPubkey = new PublicKey(recipientAddress);
-  const depositedLamports = Math.floor(amountSol * LAMPORTS_PER_SOL);
-  const payoutLamports = depositedLamports - NETWORK_FEE_LAMPORTS;
-
-  if (payoutLamports <= 0) {
-    throw new Error("Amount too small to cover network fee");
-  }
-
-  const transaction = new Transaction().add(
-    SystemProgram.transfer({
-      fromPubkey: poolWallet.publicKey,
-      toPubkey: recipientPubkey,
-      lamports: payoutLamports,
-    })
-  );
-
-  const signature = await sendAndConfirmTransaction(connection, transaction, [poolWallet]);
-  return signature;
-}
-
-async function sendFromPoolETH(recipientAddress: string, amountEth: number): Promise<string> {
-  if (!ethPoolWallet) {
-    throw new Error("ETH Pool wallet not initialized");
-  }
-
-  const depositedWei = ethers.parseEther(amountEth.toString());
-  const gasFee = ethers.parseEther("0.001");
-  const payoutWei = depositedWei - gasFee;
-
-  if (payoutWei <= BigInt(0)) {
-    throw new Error("Amount too small to cover network fee");
-  }
-
-  const tx = await ethPoolWallet.sendTransaction({
-    to: recipientAddress,
-    value: payoutWei,
-  });
-
-  const receipt = await tx.wait();
-  return receipt?.hash || tx.hash;
-}
-
-async function sendFromPoolBNB(recipientAddress: string, amountBnb: number): Promise<string> {
-  if (!bnbPoolWallet) {
-    throw new Error("BNB Pool wallet not initialized");
+    payoutAmount = quote.payoutAmount;
   }
 
-  const depositedWei = ethers.parseEther(amountBnb.toString());
-  const gasFee = ethers.parseEther("0.0005");
-  const payoutWei = depositedWei - gasFee;
-
-  if (payoutWei <= BigInt(0)) {
-    throw new Error("Amount too small to cover network fee");
-  }
-
-  const tx = await bnbPoolWallet.sendTransaction({
-    to: recipientAddress,
-    value: payoutWei,
-  });
-
-  const receipt = await tx.wait();
-  return receipt?.hash || tx.hash;
-}
-
-function isValidEthAddress(address: string): boolean {
-  return ethers.isAddress(address);
+  return adapter.sendPayout(session.recipientAddress, payoutAmount, token, onSigned);
 }
 
 export async function registerRoutes(
   httpServer: Server,
   app: Express
 ): Promise<Server> {
+  await setupAuth(app);
+  setupWalletAuth(app);
+
   app.get("/api/rpc-endpoint", async (req, res) => {
-    res.json({ rpcUrl: RPC_ENDPOINT });
+    res.json({ rpcUrl: solanaAdapter.rpcUrl });
   });
 
   app.get("/api/rpc-endpoint/:chain", async (req, res) => {
-    const { chain } = req.params;
-    switch (chain.toLowerCase()) {
-      case "solana":
-        res.json({ rpcUrl: RPC_ENDPOINT });
-        break;
-      case "ethereum":
-      case "eth":
-        res.json({ rpcUrl: ETH_RPC_URL });
-        break;
-      case "bnb":
-      case "bsc":
-        res.json({ rpcUrl: BNB_RPC_URL });
-        break;
-      default:
-        res.status(400).json({ error: "Unsupported chain" });
+    const adapter = getChainAdapter(req.params.chain);
+    if (!adapter) {
+      return res.status(400).json({ error: "Unsupported chain" });
     }
+    res.json({ rpcUrl: adapter.rpcUrl });
   });
 
   app.get("/api/pool-address", async (req, res) => {
+    const poolAddress = solanaAdapter.getPoolAddress();
     if (!poolAddress) {
-      initializePoolWallet();
-    }
-    
-    if (!poolAddress) {
-      console.error("Pool address still not available after re-init attempt");
+      log.error("Pool address still not available after re-init attempt");
       return res.status(503).json({ error: "Pool wallet not configured" });
     }
     res.json({ poolAddress });
   });
 
   app.get("/api/pool-address/:chain", async (req, res) => {
-    const { chain } = req.params;
-    switch (chain.toLowerCase()) {
-      case "solana":
-        if (!poolAddress) {
-          initializePoolWallet();
-        }
-        if (!poolAddress) {
-          return res.status(503).json({ error: "Solana pool wallet not configured" });
-        }
-        res.json({ poolAddress });
-        break;
-      case "ethereum":
-      case "eth":
-        if (!ethPoolAddress) {
-          initializeEthPoolWallet();
-        }
-        if (!ethPoolAddress) {
-          return res.status(503).json({ error: "ETH pool wallet not configured" });
-        }
-        res.json({ poolAddress: ethPoolAddress });
-        break;
-      case "bnb":
-      case "bsc":
-        if (!bnbPoolAddress) {
-          initializeBnbPoolWallet();
-        }
-        if (!bnbPoolAddress) {
-          return res.status(503).json({ error: "BNB pool wallet not configured" });
-        }
-        res.json({ poolAddress: bnbPoolAddress });
-        break;
-      default:
-        res.status(400).json({ error: "Unsupported chain" });
+    const adapter = getChainAdapter(req.params.chain);
+    if (!adapter) {
+      return res.status(400).json({ error: "Unsupported chain" });
+    }
+    const poolAddress = adapter.getPoolAddress();
+    if (!poolAddress) {
+      return res.status(503).json({ error: `${adapter.name} pool wallet not configured` });
     }
+    res.json({ poolAddress });
   });
 
-  app.get("/api/balance/:address", async (req, res) => {
+  app.get("/api/balance/:address", rateLimit("rpc"), async (req, res) => {
     try {
       const { address } = req.params;
-      
-      try {
-        new PublicKey(address);
-      } catch {
+
+      if (!solanaAdapter.isValidAddress(address)) {
         return res.status(400).json({ error: "Invalid Solana address" });
       }
 
-      const publicKey = new PublicKey(address);
-      const lamports = await connection.getBalance(publicKey);
-      const balance = lamports / LAMPORTS_PER_SOL;
-      
-      res.json({ balance, lamports });
+      res.json(await solanaAdapter.getBalance(address));
     } catch (error) {
-      console.error("Error fetching balance:", error);
+      log.error("Error fetching balance", { error });
       res.status(500).json({ error: "Failed to fetch balance" });
     }
   });
 
-  app.get("/api/balance/:chain/:address", async (req, res) => {
+  app.get("/api/balance/:chain/:address", rateLimit("rpc"), async (req, res) => {
     try {
       const { chain, address } = req.params;
-      
-      switch (chain.toLowerCase()) {
-        case "solana": {
-          try {
-            new PublicKey(address);
-          } catch {
-            return res.status(400).json({ error: "Invalid Solana address" });
-          }
-          const publicKey = new PublicKey(address);
-          const lamports = await connection.getBalance(publicKey);
-          const balance = lamports / LAMPORTS_PER_SOL;
-          res.json({ balance, lamports });
-          break;
-        }
-        case "ethereum":
-        case "eth": {
-          if (!isValidEthAddress(address)) {
-            return res.status(400).json({ error: "Invalid Ethereum address" });
-          }
-          const weiBalance = await ethProvider.getBalance(address);
-          const balance = parseFloat(ethers.formatEther(weiBalance));
-          res.json({ balance, wei: weiBalance.toString() });
-          break;
-        }
-        case "bnb":
-        case "bsc": {
-          if (!isValidEthAddress(address)) {
-            return res.status(400).json({ error: "Invalid BNB address" });
-          }
-          const weiBalance = await bnbProvider.getBalance(address);
-          const balance = parseFloat(ethers.formatEther(weiBalance));
-          res.json({ balance, wei: weiBalance.toString() });
-          break;
-        }
-        default:
-          res.status(400).json({ error: "Unsupported chain" });
+
+      const adapter = getChainAdapter(chain);
+      if (!adapter) {
+        return res.status(400).json({ error: "Unsupported chain" });
       }
+
+      if (!adapter.isValidAddress(address)) {
+        return res.status(400).json({ error: `Invalid ${adapter.name} address` });
+      }
+
+      res.json(await adapter.getBalance(address));
     } catch (error) {
-      console.error("Error fetching balance:", error);
+      log.error("Error fetching balance", { error });
       res.status(500).json({ error: "Failed to fetch balance" });
     }
   });
 
-  app.post("/api/mixer/sessions", async (req, res) => {
+  app.get("/api/mixer/quote", rateLimit("rpc"), async (req, res) => {
+    try {
+      const chain = (req.query.chain as string) || "solana";
+      const amount = req.query.amount as string;
+      const tokenMint = req.query.tokenMint as string | undefined;
+
+      const adapter = getChainAdapter(chain);
+      if (!adapter) {
+        return res.status(400).json({ error: "Unsupported chain" });
+      }
+
+      const token = tokenMint ? adapter.getToken(tokenMint) : undefined;
+      if (tokenMint && !token) {
+        return res.status(400).json({ error: "Unsupported token" });
+      }
+
+      if (!amount) {
+        return res.status(400).json({ error: "Amount parameter required" });
+      }
+
+      const [{ quote, error }, estimate] = await Promise.all([
+        calculateQuote(adapter, amount, token),
+        adapter.estimateFee(),
+      ]);
+      if (!quote) {
+        return res.status(400).json({ error });
+      }
+
+      res.json({
+        ...quote,
+        estimatedNetworkFee: estimate.fee,
+        estimatedPayout: quote.payoutAmount,
+        gasLimit: estimate.gasLimit,
+        maxFeePerGas: estimate.maxFeePerGas,
+        maxPriorityFeePerGas: estimate.maxPriorityFeePerGas,
+        minDeposit: (token ?? adapter).feePolicy.minDeposit,
+        maxDeposit: (token ?? adapter).feePolicy.maxDeposit,
+      });
+    } catch (error) {
+      log.error("Error estimating mixer fee", { error });
+      res.status(500).json({ error: "Failed to estimate fee" });
+    }
+  });
+
+  const quoteRequestSchema = z.object({
+    chain: z.string().optional().default("solana"),
+    tokenMint: z.string().optional(),
+    amount: z.union([z.string(), z.number()]).transform((v) => v.toString()),
+  });
+
+  app.post("/api/mixer/quote", rateLimit("mixer"), async (req, res) => {
+    try {
+      const parsed = quoteRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: "Invalid quote request",
+          details: parsed.error.errors
+        });
+      }
+
+      const { chain, tokenMint, amount } = parsed.data;
+
+      const adapter = getChainAdapter(chain);
+      if (!adapter) {
+        return res.status(400).json({ error: "Unsupported chain" });
+      }
+
+      const token = tokenMint ? adapter.getToken(tokenMint) : undefined;
+      if (tokenMint && !token) {
+        return res.status(400).json({ error: "Unsupported token" });
+      }
+
+      const { quote, error } = await createQuote(adapter, amount, token);
+      if (!quote) {
+        return res.status(400).json({ error });
+      }
+
+      res.status(201).json({
+        quoteId: quote.id,
+        chain: quote.chain,
+        tokenMint: quote.tokenMint,
+        symbol: token?.symbol ?? adapter.nativeSymbol,
+        amount: quote.amount,
+        serviceFee: quote.serviceFee,
+        networkFee: quote.networkFee,
+        payoutAmount: quote.payoutAmount,
+        expiresAt: quote.expiresAt,
+      });
+    } catch (error) {
+      log.error("Error creating mixer quote", { error });
+      res.status(500).json({ error: "Failed to create quote" });
+    }
+  });
+
+  app.post("/api/mixer/sessions", rateLimit("mixer"), idempotency, async (req, res) => {
     try {
-      const { senderAddress, recipientAddress, amount, chain = "solana" } = req.body;
+      const { senderAddress, recipientAddress, amount, quoteId, tokenMint, chain = "solana" } = req.body;
 
       if (!senderAddress || !recipientAddress || !amount) {
         return res.status(400).json({ error: "Missing required fields" });
       }
 
-      let targetPoolAddress: string | null = null;
-
-      switch (chain.toLowerCase()) {
-        case "solana":
-          if (!poolAddress) {
-            return res.status(503).json({ error: "Solana pool wallet not configured" });
-          }
-          try {
-            new PublicKey(senderAddress);
-            new PublicKey(recipientAddress);
-          } catch {
-            return res.status(400).json({ error: "Invalid Solana address" });
-          }
-          targetPoolAddress = poolAddress;
-          break;
-        case "ethereum":
-        case "eth":
-          if (!ethPoolAddress) {
-            return res.status(503).json({ error: "ETH pool wallet not configured" });
-          }
-          if (!isValidEthAddress(senderAddress) || !isValidEthAddress(recipientAddress)) {
-            return res.status(400).json({ error: "Invalid Ethereum address" });
-          }
-          targetPoolAddress = ethPoolAddress;
-          break;
-        case "bnb":
-        case "bsc":
-          if (!bnbPoolAddress) {
-            return res.status(503).json({ error: "BNB pool wallet not configured" });
-          }
-          if (!isValidEthAddress(senderAddress) || !isValidEthAddress(recipientAddress)) {
-            return res.status(400).json({ error: "Invalid BNB address" });
-          }
-          targetPoolAddress = bnbPoolAddress;
-          break;
-        default:
-          return res.status(400).json({ error: "Unsupported chain" });
+      const adapter = getChainAdapter(chain);
+      if (!adapter) {
+        return res.status(400).json({ error: "Unsupported chain" });
+      }
+
+      const targetPoolAddress = adapter.getPoolAddress();
+      if (!targetPoolAddress) {
+        return res.status(503).json({ error: `${adapter.name} pool wallet not configured` });
+      }
+
+      if (!adapter.isValidAddress(senderAddress) || !adapter.isValidAddress(recipientAddress)) {
+        return res.status(400).json({ error: `Invalid ${adapter.name} address` });
+      }
+
+      const token = tokenMint ? adapter.getToken(tokenMint) : undefined;
+      if (tokenMint && !token) {
+        return res.status(400).json({ error: "Unsupported token" });
+      }
+
+      const screening = await screenAddresses("mixer_session_create", adapter.id, [
+        { address: senderAddress, role: "sender" },
+        { address: recipientAddress, role: "recipient" },
+      ]);
+      if (screening.decision === "deny") {
+        return res.status(403).json({ error: "Address failed compliance screening" });
+      }
+
+      if (!isDecimalAmount(amount.toString())) {
+        return res.status(400).json({ error: "Invalid amount" });
+      }
+
+      // The deposit amount bounds the payout, so checking it first avoids burning the quote.
+      const capacity = await checkPoolCapacity(adapter, amount.toString(), token);
+      if (!capacity.sufficient) {
+        return res.status(503).json({
+          error: "Pool cannot cover this amount right now",
+          details: `Currently available: ${capacity.available} ${token?.symbol ?? adapter.nativeSymbol}`,
+        });
+      }
+
+      const { quote, error: quoteError } = quoteId
+        ? await redeemQuote(quoteId, adapter, amount.toString(), token)
+        : await calculateQuote(adapter, amount.toString(), token);
+      if (!quote) {
+        return res.status(400).json({ error: quoteError });
       }
 
       const session = await storage.createMixerSession({
-        chain: chain.toLowerCase(),
+        chain: adapter.id,
         senderAddress,
         recipientAddress,
         amount: amount.toString(),
+        tokenMint: token?.address ?? null,
+        quoteId: quoteId ?? null,
+        serviceFee: quote.serviceFee,
+        payoutAmount: quote.payoutAmount,
         status: "pending",
+        expiresAt: new Date(Date.now() + MIXER_SESSION_TTL_MS),
+        screeningStatus: screening.decision === "flag" ? "flagged" : "clear",
+        reviewReason: screening.decision === "flag" ? describeMatches(screening) : null,
       });
 
       res.status(201).json({
         sessionId: session.id,
         poolAddress: targetPoolAddress,
         amount: session.amount,
+        serviceFee: session.serviceFee,
+        payoutAmount: session.payoutAmount,
         status: session.status,
         chain: session.chain,
+        tokenMint: session.tokenMint,
+        expiresAt: session.expiresAt,
       });
     } catch (error) {
-      console.error("Error creating mixer session:", error);
+      log.error("Error creating mixer session", { error });
       res.status(500).json({ error: "Failed to create session" });
     }
   });
 
-  app.post("/api/mixer/sessions/:id/confirm-deposit", async (req, res) => {
+  app.post("/api/mixer/sessions/:id/confirm-deposit", rateLimit("mixer"), idempotency, async (req, res) => {
     try {
       const { id } = req.params;
       const { depositSignature } = req.body;
@@ -533,121 +357,18 @@ export async function registerRoutes(
         return res.status(404).json({ error: "Session not found" });
       }
 
-      if (session.status !== "pending") {
-        return res.status(400).json({ error: "Session not in pending state" });
-      }
-
-      const chain = session.chain || "solana";
-      let verification: { valid: boolean; error?: string; actualSender?: string };
-      let targetPoolAddress: string;
-
-      switch (chain.toLowerCase()) {
-        case "solana":
-          targetPoolAddress = poolAddress!;
-          verification = await verifyTransaction(
-            depositSignature,
-            session.senderAddress,
-            targetPoolAddress,
-            session.amount
-          );
-          break;
-        case "ethereum":
-        case "eth":
-          targetPoolAddress = ethPoolAddress!;
-          verification = await verifyEthTransaction(
-            depositSignature,
-            session.senderAddress,
-            targetPoolAddress,
-            session.amount,
-            ethProvider
-          );
-          break;
-        case "bnb":
-        case "bsc":
-          targetPoolAddress = bnbPoolAddress!;
-          verification = await verifyEthTransaction(
-            depositSignature,
-            session.senderAddress,
-            targetPoolAddress,
-            session.amount,
-            bnbProvider
-          );
-          break;
-        default:
-          return res.status(400).json({ error: "Unsupported chain" });
-      }
-
-      if (!verification.valid) {
-        return res.status(400).json({ 
-          error: "Deposit verification failed", 
-          details: verification.error 
-        });
+      const result = await confirmMixerDeposit(session, depositSignature);
+      if ("error" in result) {
+        return res.status(result.status).json({ error: result.error, details: result.details });
       }
 
-      const updateData: any = {
+      res.status(202).json({
+        sessionId: id,
+        status: result.session.status,
         depositSignature,
-        status: "deposit_confirmed",
-        depositConfirmedAt: new Date(),
-      };
-      
-      if (session.senderAddress === "pending" && verification.actualSender) {
-        updateData.senderAddress = verification.actualSender;
-      }
-
-      await storage.updateMixerSession(id, updateData);
-
-      try {
-        let payoutSignature: string;
-
-        switch (chain.toLowerCase()) {
-          case "solana":
-            payoutSignature = await sendFromPool(
-              session.recipientAddress,
-              parseFloat(session.amount)
-            );
-            break;
-          case "ethereum":
-          case "eth":
-            payoutSignature = await sendFromPoolETH(
-              session.recipientAddress,
-              parseFloat(session.amount)
-            );
-            break;
-          case "bnb":
-          case "bsc":
-            payoutSignature = await sendFromPoolBNB(
-              session.recipientAddress,
-              parseFloat(session.amount)
-            );
-            break;
-          default:
-            throw new Error("Unsupported chain for payout");
-        }
-
-        await storage.updateMixerSession(id, {
-          payoutSignature,
-          status: "completed",
-          payoutSentAt: new Date(),
-        });
-
-        res.json({
-          sessionId: id,
-          status: "completed",
-          depositSignature,
-          payoutSignature,
-        });
-      } catch (payoutError: any) {
-        console.error("Payout failed:", payoutError);
-        await storage.updateMixerSession(id, {
-          status: "payout_failed",
-        });
-        res.status(500).json({ 
-          error: "Payout failed", 
-          details: payoutError.message 
-        });
-      }
+      });
     } catch (error) {
-      console.error("Error confirming deposit:", error);
+      log.error("Error confirming deposit", { error });
       res.status(500).json({ error: "Failed to confirm deposit" });
     }
   });
@@ -665,59 +386,99 @@ export async function registerRoutes(
         sessionId: session.id,
         status: session.status,
         amount: session.amount,
+        serviceFee: session.serviceFee,
+        payoutAmount: session.payoutAmount,
         chain: session.chain,
+        tokenMint: session.tokenMint,
         recipientAddress: session.recipientAddress,
         depositSignature: session.depositSignature,
         payoutSignature: session.payoutSignature,
+        payoutExplorerUrl: session.payoutSignature
+          ? getChainAdapter(session.chain)?.getExplorerTxUrl(session.payoutSignature) ?? null
+          : null,
+        networkFee: session.networkFee,
+        payoutAttempts: session.payoutAttempts,
+        expiresAt: session.expiresAt,
+        refundAmount: session.refundAmount,
+        refundReason: session.refundReason,
+        refundSignature: session.refundSignature,
+        refundExplorerUrl: session.refundSignature
+          ? getChainAdapter(session.chain)?.getExplorerTxUrl(session.refundSignature) ?? null
+          : null,
+        refundedAt: session.refundedAt,
         createdAt: session.createdAt,
       });
     } catch (error) {
-      console.error("Error fetching session:", error);
+      log.error("Error fetching session", { error });
       res.status(500).json({ error: "Failed to fetch session" });
     }
   });
 
-  app.get("/api/mixer/sessions", async (req, res) => {
+  app.get("/api/mixer/sessions", requireWallet, async (req, res) => {
     try {
-      const address = req.query.address as string;
-      if (!address) {
-        return res.status(400).json({ error: "Address parameter required" });
+      const wallet = req.session.wallet!;
+      const address = req.query.address as string | undefined;
+      if (address && !isSameWallet(wallet, address)) {
+        return res.status(403).json({ error: "Address does not match the signed-in wallet" });
       }
 
-      const sessions = await storage.getMixerSessionsByAddress(address);
+      const sessions = await storage.getMixerSessionsByAddress(wallet.address, hasCaseInsensitiveAddress(wallet));
       res.json(sessions.map(s => ({
         sessionId: s.id,
         status: s.status,
         amount: s.amount,
         chain: s.chain,
+        tokenMint: s.tokenMint,
         recipientAddress: s.recipientAddress,
         depositSignature: s.depositSignature,
         payoutSignature: s.payoutSignature,
+        networkFee: s.networkFee,
         createdAt: s.createdAt,
       })));
     } catch (error) {
-      console.error("Error fetching sessions:", error);
+      log.error("Error fetching sessions", { error });
       res.status(500).json({ error: "Failed to fetch sessions" });
     }
   });
 
-  app.get("/api/transactions", async (req, res) => {
+  app.get("/api/admin/treasury", requireRole("viewer"), async (req, res) => {
     try {
-      const address = req.query.address as string;
-      if (!address) {
-        return res.status(400).json({ error: "Address parameter is required" });
-      }
+      const chains = await getTreasuryReport();
+      res.json({
+        chains,
+        belowThreshold: chains.some((c) => c.assets.some((a) => a.belowThreshold)),
+        generatedAt: new Date(),
+      });
+    } catch (error) {
+      log.error("Error building treasury report", { error });
+      res.status(500).json({ error: "Failed to build treasury report" });
+    }
+  });
 
-      try {
-        new PublicKey(address);
-      } catch {
-        return res.status(400).json({ error: "Invalid Solana address format" });
+  app.get("/api/admin/reconciliation", requireRole("viewer"), async (req, res) => {
+    try {
+      const report = req.query.cached === "true"
+        ? getLastReconciliation() ?? await reconcileLedger()
+        : await reconcileLedger();
+      res.json(report);
+    } catch (error) {
+      log.error("Error reconciling ledger", { error });
+      res.status(500).json({ error: "Failed to reconcile ledger" });
+    }
+  });
+
+  app.get("/api/transactions", requireWallet, async (req, res) => {
+    try {
+      const wallet = req.session.wallet!;
+      const address = req.query.address as string | undefined;
+      if (address && !isSameWallet(wallet, address)) {
+        return res.status(403).json({ error: "Address does not match the signed-in wallet" });
       }
 
-      const transactions = await storage.getTransactionsByAddress(address);
+      const transactions = await storage.getTransactionsByAddress(wallet.address, hasCaseInsensitiveAddress(wallet));
       res.json(transactions);
     } catch (error) {
-      console.error("Error fetching transactions:", error);
+      log.error("Error fetching transactions", { error });
       res.status(500).json({ error: "Failed to fetch transactions" });
     }
   });
@@ -731,7 +492,7 @@ export async function registerRoutes(
       }
       res.json(transaction);
     } catch (error) {
-      console.error("Error fetching transaction:", error);
+      log.error("Error fetching transaction", { error });
       res.status(500).json({ error: "Failed to fetch transaction" });
     }
   });
@@ -748,7 +509,7 @@ export async function registerRoutes(
 
       const { signature, fromAddress, toAddress, amount } = parsed.data;
 
-      const verification = await verifyTransaction(signature, fromAddress, toAddress, amount);
+      const verification = await solanaAdapter.verifyDeposit(signature, fromAddress, toAddress, amount);
       if (!verification.valid) {
         return res.status(400).json({ 
           error: "Transaction verification failed", 
@@ -762,22 +523,246 @@ export async function registerRoutes(
       if (error.code === "23505") {
         return res.status(409).json({ error: "Transaction already exists" });
       }
-      console.error("Error creating transaction:", error);
+      log.error("Error creating transaction", { error });
       res.status(500).json({ error: "Failed to create transaction" });
     }
   });
 
   // ========================================
-  // Hive Mind API Routes
+  // Gift Vault API Routes
   // ========================================
 
-  // Lazy OpenAI client initialization to ensure env vars are available
-  const getOpenAIClient = () => {
-    const apiKey = process.env.AI_INTEGRATIONS_OPENAI_API_KEY;
-    const baseURL = process.env.AI_INTEGRATIONS_OPENAI_BASE_URL;
-    console.log("OpenAI config - baseURL:", baseURL ? "set" : "not set", "apiKey:", apiKey ? "set" : "not set");
-    return new OpenAI({ apiKey, baseURL });
-  };
+  app.get("/api/gift-vaults/pool-info", rateLimit("rpc"), async (req, res) => {
+    try {
+      const token = getGiftVaultToken();
+      const poolAddress = solanaAdapter.getPoolAddress();
+      if (!token || !poolAddress) {
+        return res.status(503).json({ error: "Gift vaults are not configured" });
+      }
+
+      const [poolTokenAddress, balance] = await Promise.all([
+        solanaAdapter.getPoolTokenAccount(poolAddress, token),
+        solanaAdapter.getPoolBalance(token),
+      ]);
+      res.json({
+        poolAddress,
+        poolTokenAddress,
+        tokenMint: token.address,
+        balance: Number(fromBaseUnits(balance, token.decimals)),
+      });
+    } catch (error) {
+      log.error("Error fetching gift vault pool info", { error });
+      res.status(500).json({ error: "Failed to fetch pool info" });
+    }
+  });
+
+  // No idempotency here: a replayable response would mean storing the plaintext code.
+  app.post("/api/gift-vaults", rateLimit("vault"), async (req, res) => {
+    try {
+      const {
+        creatorAddress,
+        amount,
+        expiresInDays = DEFAULT_VAULT_EXPIRY_DAYS,
+        maxClaims = 1,
+        splitMode = "equal",
+      } = req.body;
+
+      if (!creatorAddress || !amount) {
+        return res.status(400).json({ error: "Missing required fields" });
+      }
+
+      if (!Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > MAX_VAULT_EXPIRY_DAYS) {
+        return res.status(400).json({ error: `Expiry must be between 1 and ${MAX_VAULT_EXPIRY_DAYS} days` });
+      }
+
+      if (!Number.isInteger(maxClaims) || maxClaims < 1 || maxClaims > MAX_VAULT_CLAIMS) {
+        return res.status(400).json({ error: `Claims must be between 1 and ${MAX_VAULT_CLAIMS}` });
+      }
+
+      if (!giftVaultSplitModes.includes(splitMode)) {
+        return res.status(400).json({ error: "Unsupported split mode" });
+      }
+
+      const result = await createGiftVault(creatorAddress, amount.toString(), { expiresInDays, maxClaims, splitMode });
+      if ("error" in result) {
+        return res.status(result.status).json({ error: result.error, details: result.details });
+      }
+
+      // The code is only ever returned here; the server keeps just its hash.
+      res.status(201).json({
+        id: result.vault.id,
+        code: result.code,
+        amount: result.vault.amount,
+        tokenMint: result.vault.tokenMint,
+        poolAddress: solanaAdapter.getPoolAddress(),
+        status: result.vault.status,
+        expiresAt: result.vault.expiresAt,
+      });
+    } catch (error) {
+      log.error("Error creating gift vault", { error });
+      res.status(500).json({ error: "Failed to create gift vault" });
+    }
+  });
+
+  app.post("/api/gift-vaults/:id/verify-deposit", rateLimit("vault"), idempotency, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { signature } = req.body;
+
+      if (!signature) {
+        return res.status(400).json({ error: "Deposit signature required" });
+      }
+
+      const vault = await storage.getGiftVault(id);
+      if (!vault) {
+        return res.status(404).json({ error: "Gift vault not found" });
+      }
+
+      const result = await confirmGiftVaultDeposit(vault, signature);
+      if ("error" in result) {
+        return res.status(result.status).json({ error: result.error, details: result.details });
+      }
+
+      res.json({ id, status: result.vault.status, depositSignature: signature });
+    } catch (error) {
+      log.error("Error verifying gift vault deposit", { error });
+      res.status(500).json({ error: "Failed to verify deposit" });
+    }
+  });
+
+  // The code goes in the body, not the URL, so it stays out of access logs.
+  app.post("/api/gift-vaults/check", rateLimit("code"), codeLockout, async (req, res) => {
+    try {
+      const { code } = req.body;
+      if (typeof code !== "string" || !code) {
+        return res.status(400).json({ error: "Missing required fields" });
+      }
+
+      const vault = await findGiftVaultByCode(code);
+      if (!vault) {
+        await recordCodeFailure(req, "check", 404, "Gift vault not found");
+        return res.status(404).json({ error: "Gift vault not found" });
+      }
+
+      res.json({
+        id: vault.id,
+        amount: vault.amount,
+        tokenMint: vault.tokenMint,
+        status: getVaultStatus(vault),
+        maxClaims: vault.maxClaims,
+        claimedCount: vault.claimedCount,
+        splitMode: vault.splitMode,
+        createdAt: vault.createdAt,
+        expiresAt: vault.expiresAt,
+      });
+    } catch (error) {
+      log.error("Error checking gift vault", { error });
+      res.status(500).json({ error: "Failed to check gift vault" });
+    }
+  });
+
+  app.post("/api/gift-vaults/claim", rateLimit("code"), codeLockout, idempotency, async (req, res) => {
+    try {
+      const { code, claimerAddress, signature } = req.body;
+
+      if (!code || !claimerAddress || !signature) {
+        return res.status(400).json({ error: "Missing required fields" });
+      }
+
+      const result = await claimGiftVault(code, claimerAddress, signature);
+      if ("error" in result) {
+        // Anything past signature verification has proven control of the claimer wallet.
+        const verified = result.status !== 400 && result.status !== 401;
+        await recordCodeFailure(req, "claim", result.status, result.error, verified ? claimerAddress : undefined);
+        return res.status(result.status).json({ error: result.error, details: result.details });
+      }
+
+      res.json({
+        id: result.vault.id,
+        amount: result.claim.amount,
+        tokenMint: result.vault.tokenMint,
+        status: result.vault.status,
+        maxClaims: result.vault.maxClaims,
+        claimedCount: result.vault.claimedCount,
+        claimSignature: result.claim.payoutSignature,
+        claimExplorerUrl: result.claim.payoutSignature
+          ? solanaAdapter.getExplorerTxUrl(result.claim.payoutSignature)
+          : null,
+      });
+    } catch (error) {
+      log.error("Error claiming gift vault", { error });
+      res.status(500).json({ error: "Failed to claim gift vault" });
+    }
+  });
+
+  app.post("/api/gift-vaults/:id/reclaim", rateLimit("vault"), idempotency, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { signature } = req.body;
+
+      if (!signature) {
+        return res.status(400).json({ error: "Signature required" });
+      }
+
+      const vault = await storage.getGiftVault(id);
+      if (!vault) {
+        return res.status(404).json({ error: "Gift vault not found" });
+      }
+
+      const result = await reclaimGiftVault(vault, signature);
+      if ("error" in result) {
+        return res.status(result.status).json({ error: result.error, details: result.details });
+      }
+
+      res.json({
+        id,
+        amount: result.vault.amount,
+        status: result.vault.status,
+        reclaimSignature: result.vault.reclaimSignature,
+        reclaimExplorerUrl: result.vault.reclaimSignature
+          ? solanaAdapter.getExplorerTxUrl(result.vault.reclaimSignature)
+          : null,
+      });
+    } catch (error) {
+      log.error("Error reclaiming gift vault", { error });
+      res.status(500).json({ error: "Failed to reclaim gift vault" });
+    }
+  });
+
+  app.get("/api/gift-vaults/creator/:address", requireWallet, async (req, res) => {
+    try {
+      const wallet = req.session.wallet!;
+      if (!isSameWallet(wallet, req.params.address)) {
+        return res.status(403).json({ error: "Address does not match the signed-in wallet" });
+      }
+
+      const vaults = await storage.getGiftVaultsByCreator(wallet.address, hasCaseInsensitiveAddress(wallet));
+      res.json(vaults.map(v => ({
+        id: v.id,
+        amount: v.amount,
+        tokenMint: v.tokenMint,
+        status: getVaultStatus(v),
+        maxClaims: v.maxClaims,
+        claimedCount: v.claimedCount,
+        claimedAmount: v.claimedAmount,
+        splitMode: v.splitMode,
+        depositSignature: v.depositSignature,
+        reclaimAmount: v.reclaimAmount,
+        reclaimSignature: v.reclaimSignature,
+        createdAt: v.createdAt,
+        expiresAt: v.expiresAt,
+        claimedAt: v.claimedAt,
+        reclaimedAt: v.reclaimedAt,
+      })));
+    } catch (error) {
+      log.error("Error fetching gift vaults", { error });
+      res.status(500).json({ error: "Failed to fetch gift vaults" });
+    }
+  });
+
+  // ========================================
+  // Hive Mind API Routes
+  // ========================================
 
   // GET /api/hivemind/agents - List all agents sorted by Elo rating descending
   app.get("/api/hivemind/agents", async (req, res) => {
@@ -788,13 +773,13 @@ export async function registerRoutes(
         .orderBy(desc(agents.eloRating));
       res.json(allAgents);
     } catch (error) {
-      console.error("Error fetching agents:", error);
+      log.error("Error fetching agents", { error });
       res.status(500).json({ error: "Failed to fetch agents" });
     }
   });
 
   // POST /api/hivemind/agents - Create a new agent
-  app.post("/api/hivemind/agents", async (req, res) => {
+  app.post("/api/hivemind/agents", requireRole("operator"), async (req, res) => {
     try {
       const parsed = insertAgentSchema.safeParse(req.body);
       if (!parsed.success) {
@@ -816,7 +801,7 @@ export async function registerRoutes(
         .returning();
       res.status(201).json(agent);
     } catch (error) {
-      console.error("Error creating agent:", error);
+      log.error("Error creating agent", { error });
       res.status(500).json({ error: "Failed to create agent" });
     }
   });
@@ -835,7 +820,7 @@ export async function registerRoutes(
       }
       res.json(agent);
     } catch (error) {
-      console.error("Error fetching agent:", error);
+      log.error("Error fetching agent", { error });
       res.status(500).json({ error: "Failed to fetch agent" });
     }
   });
@@ -880,13 +865,13 @@ export async function registerRoutes(
 
       res.json({ nodes, edges });
     } catch (error) {
-      console.error("Error fetching agent knowledge:", error);
+      log.error("Error fetching agent knowledge", { error });
       res.status(500).json({ error: "Failed to fetch knowledge" });
     }
   });
 
   // POST /api/hivemind/agents/:id/knowledge - Add a knowledge node to an agent
-  app.post("/api/hivemind/agents/:id/knowledge", async (req, res) => {
+  app.post("/api/hivemind/agents/:id/knowledge", requireRole("operator"), async (req, res) => {
     try {
       const { id } = req.params;
 
@@ -920,7 +905,7 @@ export async function registerRoutes(
       
       res.status(201).json(node);
     } catch (error) {
-      console.error("Error creating knowledge node:", error);
+      log.error("Error creating knowledge node", { error });
       res.status(500).json({ error: "Failed to create knowledge node" });
     }
   });
@@ -935,7 +920,7 @@ export async function registerRoutes(
         .limit(20);
       res.json(matches);
     } catch (error) {
-      console.error("Error fetching matches:", error);
+      log.error("Error fetching matches", { error });
       res.status(500).json({ error: "Failed to fetch matches" });
     }
   });
@@ -950,7 +935,7 @@ export async function registerRoutes(
   });
 
   // POST /api/hivemind/matches - Initiate a match between two agents
-  app.post("/api/hivemind/matches", async (req, res) => {
+  app.post("/api/hivemind/matches", requireRole("operator"), rateLimit("ai"), async (req, res) => {
     // 1. Check for OpenAI API key first (503 if not configured)
     const openaiApiKey = process.env.AI_INTEGRATIONS_OPENAI_API_KEY;
     if (!openaiApiKey) {
@@ -998,7 +983,7 @@ export async function registerRoutes(
       let completion;
       try {
         const openai = getOpenAIClient();
-        completion = await openai.chat.completions.create({
+        completion = await observeOpenAI("hivemind_match", openai.chat.completions.create({
           model: "gpt-4o-mini",
           messages: [
             {
@@ -1038,9 +1023,9 @@ Judge this knowledge trading match and generate new insights for both agents.`
           ],
           response_format: { type: "json_object" },
           max_tokens: 1000,
-        });
+        }));
       } catch (openaiError: any) {
-        console.error("OpenAI API error:", openaiError);
+        log.error("OpenAI API error", { error: openaiError });
         return res.status(500).json({ 
           error: "AI service error", 
           details: openaiError.message || "Failed to process match" 
@@ -1143,7 +1128,7 @@ Judge this knowledge trading match and generate new insights for both agents.`
         }
       });
     } catch (error) {
-      console.error("Error initiating match:", error);
+      log.error("Error initiating match", { error });
       res.status(500).json({ error: "Failed to initiate match" });
     }
   });
@@ -1198,7 +1183,7 @@ Judge this knowledge trading match and generate new insights for both agents.`
         topAgents,
       });
     } catch (error) {
-      console.error("Error fetching stats:", error);
+      log.error("Error fetching stats", { error });
       res.status(500).json({ error: "Failed to fetch stats" });
     }
   });
@@ -1216,7 +1201,7 @@ Judge this knowledge trading match and generate new insights for both agents.`
   });
 
   // POST /api/trading-battles - Create a new trading battle
-  app.post("/api/trading-battles", async (req, res) => {
+  app.post("/api/trading-battles", requireRole("operator"), async (req, res) => {
     try {
       const parsed = createBattleSchema.safeParse(req.body);
       if (!parsed.success) {
@@ -1274,13 +1259,13 @@ Judge this knowledge trading match and generate new insights for both agents.`
 
       res.status(201).json(battle);
     } catch (error) {
-      console.error("Error creating trading battle:", error);
+      log.error("Error creating trading battle", { error });
       res.status(500).json({ error: "Failed to create trading battle" });
     }
   });
 
   // POST /api/trading-battles/:id/start - Start a pending battle
-  app.post("/api/trading-battles/:id/start", async (req, res) => {
+  app.post("/api/trading-battles/:id/start", requireRole("operator"), async (req, res) => {
     try {
       const { id } = req.params;
 
@@ -1323,7 +1308,7 @@ Judge this knowledge trading match and generate new insights for both agents.`
 
       res.json(updatedBattle);
     } catch (error) {
-      console.error("Error starting battle:", error);
+      log.error("Error starting battle", { error });
       res.status(500).json({ error: "Failed to start battle" });
     }
   });
@@ -1357,7 +1342,7 @@ Judge this knowledge trading match and generate new insights for both agents.`
 
       res.json(battles);
     } catch (error) {
-      console.error("Error fetching trading battles:", error);
+      log.error("Error fetching trading battles", { error });
       res.status(500).json({ error: "Failed to fetch trading battles" });
     }
   });
@@ -1423,7 +1408,7 @@ Judge this knowledge trading match and generate new insights for both agents.`
         rounds,
       });
     } catch (error) {
-      console.error("Error fetching battle details:", error);
+      log.error("Error fetching battle details", { error });
       res.status(500).json({ error: "Failed to fetch battle details" });
     }
   });
@@ -1436,7 +1421,7 @@ Judge this knowledge trading match and generate new insights for both agents.`
   });
 
   // POST /api/trading-battles/:id/trades - Execute a trade for an agent
-  app.post("/api/trading-battles/:id/trades", async (req, res) => {
+  app.post("/api/trading-battles/:id/trades", requireRole("operator"), async (req, res) => {
     try {
       const { id } = req.params;
 
@@ -1540,12 +1525,21 @@ Judge this knowledge trading match and generate new insights for both agents.`
         }
       });
     } catch (error) {
-      console.error("Error executing trade:", error);
+      log.error("Error executing trade", { error });
       res.status(500).json({ error: "Failed to execute trade" });
     }
   });
 
   startBattleScheduler();
+  void startPayoutWorker(executeMixerPayout);
+  // Vaults go first so a transfer funding one isn't refunded as a mismatched mixer deposit.
+  registerDepositHandler(matchGiftVaultDeposit);
+  registerDepositHandler(matchMixerDeposit);
+  startDepositWatcher();
+  startSessionSweeper();
+  startGiftVaultSweeper();
+  startTreasuryMonitor();
+  startReconciliationJob();
 
   return httpServer;
 }
@@ -0,0 +1,20 @@
+import { storage } from "../storage";
+import { normalizeAddress, type ScreeningMatch, type ScreeningProvider } from "./types";
+
+// Addresses the team has added to the denied_addresses table; entries without a chain apply to every chain.
+export class DenylistProvider implements ScreeningProvider {
+  readonly name = "internal_denylist";
+
+  async screen(address: string, chain: string): Promise<ScreeningMatch | null> {
+    const entry = await storage.getDeniedAddress(normalizeAddress(address));
+    if (!entry || (entry.chain && entry.chain !== chain)) {
+      return null;
+    }
+
+    return {
+      list: this.name,
+      action: entry.action === "flag" ? "flag" : "deny",
+      reason: entry.reason || "Address is on the internal denylist",
+    };
+  }
+}
@@ -0,0 +1,79 @@
+import { storage } from "../storage";
+import { DenylistProvider } from "./denylist";
+import { OfacListProvider } from "./ofacList";
+import { logger } from "../logger";
+import type {
+  ScreenedAddress,
+  ScreeningContext,
+  ScreeningOutcome,
+  ScreeningProvider,
+} from "./types";
+
+export type { ScreeningContext, ScreeningOutcome } from "./types";
+
+const log = logger.child({ component: "Screening" });
+
+const providers: ScreeningProvider[] = [new DenylistProvider()];
+
+if (process.env.OFAC_SDN_CSV_PATH) {
+  providers.push(new OfacListProvider(process.env.OFAC_SDN_CSV_PATH));
+} else {
+  log.warn("OFAC_SDN_CSV_PATH not set - screening against the internal denylist only");
+}
+
+export function registerScreeningProvider(provider: ScreeningProvider): void {
+  providers.push(provider);
+}
+
+// Checks every address against every provider and records one audit row per address.
+// "deny" outranks "flag"; a provider error propagates so callers fail closed.
+export async function screenAddresses(
+  context: ScreeningContext,
+  chain: string,
+  addresses: ScreenedAddress[],
+  subjectId?: string
+): Promise<ScreeningOutcome> {
+  const outcome: ScreeningOutcome = { decision: "allow", matches: [] };
+  const records = [];
+
+  for (const { address, role } of addresses) {
+    const matches = [];
+    for (const provider of providers) {
+      const match = await provider.screen(address, chain);
+      if (match) matches.push(match);
+    }
+
+    const decision = matches.some((m) => m.action === "deny") ? "deny" : matches.length > 0 ? "flag" : "allow";
+    if (decision === "deny" || (decision === "flag" && outcome.decision === "allow")) {
+      outcome.decision = decision;
+    }
+    outcome.matches.push(...matches.map((match) => ({ ...match, address, role })));
+
+    records.push({
+      context,
+      subjectId: subjectId ?? null,
+      chain,
+      address,
+      role,
+      decision,
+      list: matches.map((m) => m.list).join(",") || null,
+      reason: matches.map((m) => m.reason).join("; ") || null,
+    });
+  }
+
+  await storage.createScreeningDecisions(records);
+
+  if (outcome.decision !== "allow") {
+    log.warn("Screening match", {
+      context,
+      decision: outcome.decision,
+      matches: outcome.matches.map((m) => ({ role: m.role, address: m.address, list: m.list })),
+    });
+  }
+
+  return outcome;
+}
+
+export function describeMatches(outcome: ScreeningOutcome): string {
+  return outcome.matches.map((m) => `${m.role}: ${m.reason}`).join("; ");
+}
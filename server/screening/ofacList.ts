@@ -0,0 +1,69 @@
+import { readFile } from "fs/promises";
+import { normalizeAddress, type ScreeningMatch, type ScreeningProvider } from "./types";
+import { logger } from "../logger";
+
+interface ListedAddress {
+  name?: string;
+}
+
+// Screens against a locally stored CSV export of OFAC SDN digital currency addresses.
+// A header row naming an "address" column is used when present (with an optional "name" column);
+// otherwise the first column of every row is taken as the address. Entries apply to every chain,
+// since address formats already keep EVM and Solana entries apart.
+export class OfacListProvider implements ScreeningProvider {
+  readonly name = "ofac_sdn";
+  private entries: Promise<Map<string, ListedAddress>> | null = null;
+
+  constructor(private readonly csvPath: string) {}
+
+  async screen(address: string): Promise<ScreeningMatch | null> {
+    const entries = await this.load();
+    const entry = entries.get(normalizeAddress(address));
+    if (!entry) {
+      return null;
+    }
+
+    return {
+      list: this.name,
+      action: "deny",
+      reason: entry.name ? `OFAC SDN: ${entry.name}` : "Address is on the OFAC SDN list",
+    };
+  }
+
+  private load(): Promise<Map<string, ListedAddress>> {
+    if (!this.entries) {
+      this.entries = readFile(this.csvPath, "utf8").then((contents) => {
+        const entries = parseCsv(contents);
+        logger.info("Loaded OFAC SDN addresses", { component: "Screening", count: entries.size, path: this.csvPath });
+        return entries;
+      });
+      // Allow a later call to retry if the file was missing or unreadable.
+      this.entries.catch(() => {
+        this.entries = null;
+      });
+    }
+    return this.entries;
+  }
+}
+
+function parseCsv(contents: string): Map<string, ListedAddress> {
+  const rows = contents
+    .split(/\r?\n/)
+    .map((line) => line.split(",").map((cell) => cell.trim().replace(/^"|"$/g, "")))
+    .filter((cells) => cells.some(Boolean));
+
+  const header = rows[0]?.map((cell) => cell.toLowerCase()) ?? [];
+  const hasHeader = header.includes("address");
+  const addressIndex = hasHeader ? header.indexOf("address") : 0;
+  const nameIndex = hasHeader ? header.indexOf("name") : -1;
+
+  const entries = new Map<string, ListedAddress>();
+  for (const cells of hasHeader ? rows.slice(1) : rows) {
+    const address = cells[addressIndex];
+    if (!address) continue;
+    entries.set(normalizeAddress(address), {
+      name: nameIndex >= 0 ? cells[nameIndex] || undefined : undefined,
+    });
+  }
+  return entries;
+}
@@ -0,0 +1,35 @@
+export type ScreeningAction = "deny" | "flag";
+
+export type ScreeningContext =
+  | "mixer_session_create"
+  | "mixer_confirm_deposit"
+  | "gift_vault_create"
+  | "gift_vault_claim";
+
+export interface ScreeningMatch {
+  list: string;
+  action: ScreeningAction;
+  reason: string;
+}
+
+// A source of addresses to screen against. Providers return null when the address isn't listed.
+export interface ScreeningProvider {
+  readonly name: string;
+  screen(address: string, chain: string): Promise<ScreeningMatch | null>;
+}
+
+export interface ScreenedAddress {
+  address: string;
+  role: string;
+}
+
+export interface ScreeningOutcome {
+  decision: "allow" | ScreeningAction;
+  matches: (ScreeningMatch & ScreenedAddress)[];
+}
+
+// EVM addresses are case-insensitive; Solana's base58 addresses are not.
+export function normalizeAddress(address: string): string {
+  const trimmed = address.trim();
+  return trimmed.startsWith("0x") ? trimmed.toLowerCase() : trimmed;
+}
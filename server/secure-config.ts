@@ -0,0 +1,47 @@
+// Secrets and chain endpoints, read from the environment once at startup. Everything is
+// optional here; each consumer decides whether a missing value disables a feature or is fatal.
+export interface SecureConfig {
+  SOLANA_RPC_URL?: string;
+  POOL_WALLET_PRIVATE_KEY?: string;
+  SOLANA_LOW_BALANCE_THRESHOLD?: string;
+  ETH_RPC_URL?: string;
+  ETH_POOL_WALLET_PRIVATE_KEY?: string;
+  ETH_LOW_BALANCE_THRESHOLD?: string;
+  BNB_RPC_URL?: string;
+  BNB_POOL_WALLET_PRIVATE_KEY?: string;
+  BNB_LOW_BALANCE_THRESHOLD?: string;
+  VEILRA_TOKEN_MINT?: string;
+  VEILRA_TOKEN_DECIMALS?: string;
+  VEILRA_LOW_BALANCE_THRESHOLD?: string;
+}
+
+const SECURE_CONFIG_KEYS: (keyof SecureConfig)[] = [
+  "SOLANA_RPC_URL",
+  "POOL_WALLET_PRIVATE_KEY",
+  "SOLANA_LOW_BALANCE_THRESHOLD",
+  "ETH_RPC_URL",
+  "ETH_POOL_WALLET_PRIVATE_KEY",
+  "ETH_LOW_BALANCE_THRESHOLD",
+  "BNB_RPC_URL",
+  "BNB_POOL_WALLET_PRIVATE_KEY",
+  "BNB_LOW_BALANCE_THRESHOLD",
+  "VEILRA_TOKEN_MINT",
+  "VEILRA_TOKEN_DECIMALS",
+  "VEILRA_LOW_BALANCE_THRESHOLD",
+];
+
+let cachedConfig: SecureConfig | undefined;
+
+export function getSecureConfig(): SecureConfig {
+  if (!cachedConfig) {
+    const config: SecureConfig = {};
+    for (const key of SECURE_CONFIG_KEYS) {
+      const value = process.env[key]?.trim();
+      if (value) {
+        config[key] = value;
+      }
+    }
+    cachedConfig = config;
+  }
+  return cachedConfig;
+}
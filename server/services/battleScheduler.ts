@@ -8,70 +8,81 @@ import {
 } from "@shared/schema";
 import { getCryptoPrice } from "./priceService";
 import { eq, and, gt, sql } from "drizzle-orm";
-import { getOpenAIClient } from "../replit_integrations/chat/routes";
+import type OpenAI from "openai";
+import { getOpenAIClient } from "../openai";
+import { logger, newRequestId, withRequestId } from "../logger";
+import { battleSchedulerTickDuration, observeOpenAI } from "../metrics";
 
 const SCHEDULER_INTERVAL = 300000; // 5 minutes
 
+const log = logger.child({ component: "BattleScheduler" });
+
 export function startBattleScheduler(): void {
-  console.log("Starting battle scheduler (5 minute intervals)...");
+  log.info("Starting battle scheduler", { intervalMs: SCHEDULER_INTERVAL });
 
-  setInterval(async () => {
-    try {
-      const now = new Date();
-
-      const runningBattles = await db
-        .select()
-        .from(tradingBattles)
-        .where(
-          and(
-            eq(tradingBattles.status, "running"),
-            gt(tradingBattles.endsAt, now)
-          )
-        );
-
-      console.log(`[BattleScheduler] Processing ${runningBattles.length} running battles`);
-
-      for (const battle of runningBattles) {
-        try {
-          await makeAITradingDecision(battle.id, battle.agent1Id);
-          await makeAITradingDecision(battle.id, battle.agent2Id);
-          await processBattleRound(battle.id);
-
-          const updatedBattle = await db
-            .select()
-            .from(tradingBattles)
-            .where(eq(tradingBattles.id, battle.id))
-            .then((res) => res[0]);
-
-          if (updatedBattle && updatedBattle.endsAt && new Date(updatedBattle.endsAt) <= now) {
-            await finalizeBattle(battle.id);
-          }
-        } catch (error) {
-          console.error(`[BattleScheduler] Error processing battle ${battle.id}:`, error);
-        }
-      }
+  // Each pass gets its own request id so a round's decisions, trades and results can be traced together.
+  setInterval(() => withRequestId(newRequestId(), runScheduledBattles), SCHEDULER_INTERVAL);
+}
 
-      const expiredBattles = await db
-        .select()
-        .from(tradingBattles)
-        .where(
-          and(
-            eq(tradingBattles.status, "running"),
-            sql`${tradingBattles.endsAt} <= ${now}`
-          )
-        );
-
-      for (const battle of expiredBattles) {
-        try {
+async function runScheduledBattles(): Promise<void> {
+  const endTick = battleSchedulerTickDuration.startTimer();
+  try {
+    const now = new Date();
+
+    const runningBattles = await db
+      .select()
+      .from(tradingBattles)
+      .where(
+        and(
+          eq(tradingBattles.status, "running"),
+          gt(tradingBattles.endsAt, now)
+        )
+      );
+
+    log.info("Processing running battles", { count: runningBattles.length });
+
+    for (const battle of runningBattles) {
+      try {
+        await makeAITradingDecision(battle.id, battle.agent1Id);
+        await makeAITradingDecision(battle.id, battle.agent2Id);
+        await processBattleRound(battle.id);
+
+        const updatedBattle = await db
+          .select()
+          .from(tradingBattles)
+          .where(eq(tradingBattles.id, battle.id))
+          .then((res) => res[0]);
+
+        if (updatedBattle && updatedBattle.endsAt && new Date(updatedBattle.endsAt) <= now) {
           await finalizeBattle(battle.id);
-        } catch (error) {
-          console.error(`[BattleScheduler] Error finalizing expired battle ${battle.id}:`, error);
         }
+      } catch (error) {
+        log.error("Error processing battle", { battleId: battle.id, error });
+      }
+    }
+
+    const expiredBattles = await db
+      .select()
+      .from(tradingBattles)
+      .where(
+        and(
+          eq(tradingBattles.status, "running"),
+          sql`${tradingBattles.endsAt} <= ${now}`
+        )
+      );
+
+    for (const battle of expiredBattles) {
+      try {
+        await finalizeBattle(battle.id);
+      } catch (error) {
+        log.error("Error finalizing expired battle", { battleId: battle.id, error });
       }
-    } catch (error) {
-      console.error("[BattleScheduler] Error in scheduler loop:", error);
     }
-  }, SCHEDULER_INTERVAL);
+  } catch (error) {
+    log.error("Error in scheduler loop", { error });
+  } finally {
+    endTick();
+  }
 }
 
 export async function processBattleRound(battleId: string): Promise<void> {
@@ -126,7 +137,7 @@ export async function processBattleRound(battleId: string): Promise<void> {
     agent2TotalValue: (portfolioValues[battle.agent2Id] || 0).toString(),
   });
 
-  console.log(`[BattleScheduler] Round ${roundNumber} recorded for battle ${battleId}`);
+  log.info("Round recorded", { battleId, roundNumber });
 }
 
 export async function finalizeBattle(battleId: string): Promise<void> {
@@ -193,7 +204,7 @@ export async function finalizeBattle(battleId: string): Promise<void> {
       })
       .where(eq(agents.id, loserId));
 
-    console.log(`[BattleScheduler] Battle ${battleId} finalized. Winner: ${winnerId}`);
+    log.info("Battle finalized", { battleId, winnerId });
   } else {
     await db
       .update(agents)
@@ -205,7 +216,7 @@ export async function finalizeBattle(battleId: string): Promise<void> {
       .set({ totalMatches: sql`${agents.totalMatches} + 1` })
       .where(eq(agents.id, battle.agent2Id));
 
-    console.log(`[BattleScheduler] Battle ${battleId} finalized. Result: Tie`);
+    log.info("Battle finalized as a tie", { battleId });
   }
 }
 
@@ -259,7 +270,7 @@ export async function makeAITradingDecision(
   const cashBalance = parseFloat(portfolio.cashBalance?.toString() || "0");
   const assetBalance = parseFloat(portfolio.assetBalance?.toString() || "0");
 
-  const openai = getOpenAIClient();
+  const openai: OpenAI = getOpenAIClient();
 
   const prompt = `You are an AI trading agent with the following persona: ${agent.persona}
 
@@ -284,16 +295,16 @@ Respond with a JSON object in this exact format:
 Only output the JSON, no other text.`;
 
   try {
-    const response = await openai.chat.completions.create({
+    const response = await observeOpenAI("battle_trade_decision", openai.chat.completions.create({
       model: "gpt-4o-mini",
       messages: [{ role: "user", content: prompt }],
       max_tokens: 256,
       temperature: 0.7,
-    });
+    }));
 
     const content = response.choices[0]?.message?.content?.trim();
     if (!content) {
-      console.log(`[BattleScheduler] No response from AI for agent ${agentId}`);
+      log.warn("No response from AI", { battleId, agentId });
       return;
     }
 
@@ -305,7 +316,7 @@ Only output the JSON, no other text.`;
       if (jsonMatch) {
         decision = JSON.parse(jsonMatch[0]);
       } else {
-        console.log(`[BattleScheduler] Failed to parse AI response: ${content}`);
+        log.warn("Failed to parse AI response", { battleId, agentId, content });
         return;
       }
     }
@@ -313,7 +324,7 @@ Only output the JSON, no other text.`;
     const clampedPercentage = Math.max(0, Math.min(100, decision.percentage || 0));
     
     if (decision.action === "hold" || clampedPercentage <= 0) {
-      console.log(`[BattleScheduler] Agent ${agent.name} holds. Reason: ${decision.reasoning}`);
+      log.info("Agent holds", { battleId, agentId, reasoning: decision.reasoning });
       return;
     }
 
@@ -354,7 +365,7 @@ Only output the JSON, no other text.`;
         })
         .where(eq(battlePortfolios.id, portfolio.id));
     } else {
-      console.log(`[BattleScheduler] Agent ${agent.name} cannot execute ${decision.action}`);
+      log.info("Agent cannot execute action", { battleId, agentId, action: decision.action });
       return;
     }
 
@@ -368,10 +379,16 @@ Only output the JSON, no other text.`;
       reasoning: decision.reasoning,
     });
 
-    console.log(
-      `[BattleScheduler] Agent ${agent.name} ${tradeType}s ${assetAmount.toFixed(6)} ${battle.baseAsset} at $${currentPrice}. Reason: ${decision.reasoning}`
-    );
+    log.info("Agent traded", {
+      battleId,
+      agentId,
+      tradeType,
+      assetAmount,
+      asset: battle.baseAsset,
+      price: currentPrice,
+      reasoning: decision.reasoning,
+    });
   } catch (error) {
-    console.error(`[BattleScheduler] AI trading decision error for agent ${agentId}:`, error);
+    log.error("AI trading decision error", { battleId, agentId, error });
   }
 }
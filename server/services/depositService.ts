@@ -0,0 +1,292 @@
+import { storage } from "../storage";
+import type { MixerSession } from "@shared/schema";
+import type { ChainAdapter, IncomingTransfer } from "../chains/types";
+import { getChainAdapter } from "../chains/registry";
+import { fromBaseUnits, toBaseUnits } from "../chains/units";
+import { enqueuePayout } from "./payoutWorker";
+import { screenAddresses, describeMatches } from "../screening";
+import { mixerDepositEntries } from "./ledger";
+import { logger } from "../logger";
+
+export type DepositConfirmation =
+  | { session: MixerSession }
+  | { status: number; error: string; details?: string };
+
+// How long after expiry a late deposit is still attributed to the session and refunded.
+const LATE_DEPOSIT_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const log = logger.child({ component: "Deposits" });
+
+export type RefundReason = "deposit_after_expiry" | "amount_mismatch" | "payout_failed";
+
+// Verifies a deposit on chain and moves the session from pending to deposit_confirmed.
+// Deposits for expired sessions are verified the same way and queued for refund instead.
+// Shared by the confirm-deposit route and the deposit watcher.
+export async function confirmMixerDeposit(
+  session: MixerSession,
+  depositSignature: string
+): Promise<DepositConfirmation> {
+  if (session.status === "pending" && session.expiresAt <= new Date()) {
+    session = (await storage.updateMixerSession(session.id, { status: "expired" }, "pending")) ?? session;
+  }
+
+  if (session.status !== "pending" && session.status !== "expired") {
+    return { status: 400, error: "Session not in pending state" };
+  }
+
+  const adapter = getChainAdapter(session.chain);
+  if (!adapter) {
+    return { status: 400, error: "Unsupported chain" };
+  }
+
+  const targetPoolAddress = adapter.getPoolAddress();
+  if (!targetPoolAddress) {
+    return { status: 503, error: `${adapter.name} pool wallet not configured` };
+  }
+
+  const token = session.tokenMint ? adapter.getToken(session.tokenMint) : undefined;
+  if (session.tokenMint && !token) {
+    return { status: 400, error: "Unsupported token" };
+  }
+
+  // Signatures are unique per table; this catches a gift vault deposit being replayed here.
+  if (await storage.getGiftVaultByDepositSignature(depositSignature)) {
+    return { status: 409, error: "Deposit signature already used" };
+  }
+
+  const verification = await adapter.verifyDeposit(
+    depositSignature,
+    session.senderAddress,
+    targetPoolAddress,
+    session.amount,
+    token
+  );
+
+  if (!verification.valid) {
+    return { status: 400, error: "Deposit verification failed", details: verification.error };
+  }
+
+  const held = await holdIfScreened(
+    session,
+    depositSignature,
+    verification.actualSender ?? session.senderAddress,
+    session.amount
+  );
+  if (held) {
+    return held;
+  }
+
+  if (session.status === "expired") {
+    const refund = await queueMixerRefund(
+      session,
+      depositSignature,
+      verification.actualSender ?? session.senderAddress,
+      session.amount,
+      "deposit_after_expiry"
+    );
+    if ("error" in refund) {
+      return refund;
+    }
+    return { status: 410, error: "Session expired", details: "The deposit will be refunded to the sender" };
+  }
+
+  const updateData: Partial<MixerSession> = {
+    depositSignature,
+    status: "deposit_confirmed",
+    depositConfirmedAt: new Date(),
+    nextPayoutAttemptAt: new Date(),
+  };
+
+  if (session.senderAddress === "pending" && verification.actualSender) {
+    updateData.senderAddress = verification.actualSender;
+  }
+
+  try {
+    const confirmed = await storage.updateMixerSession(
+      session.id,
+      updateData,
+      "pending",
+      mixerDepositEntries(session, session.amount, depositSignature)
+    );
+    if (!confirmed) {
+      return { status: 409, error: "Session deposit already confirmed" };
+    }
+    enqueuePayout(session.id);
+    return { session: confirmed };
+  } catch (error: any) {
+    if (error.code === "23505") {
+      return { status: 409, error: "Deposit signature already used" };
+    }
+    throw error;
+  }
+}
+
+// Screens the verified sender and the recipient again, since lists may have changed since the
+// session was created. Matches, or a session already flagged at creation, are held for review.
+async function holdIfScreened(
+  session: MixerSession,
+  depositSignature: string,
+  senderAddress: string,
+  amount: string
+): Promise<DepositConfirmation | null> {
+  const screening = await screenAddresses("mixer_confirm_deposit", session.chain, [
+    { address: senderAddress, role: "sender" },
+    { address: session.recipientAddress, role: "recipient" },
+  ], session.id);
+
+  if (screening.decision === "allow" && session.screeningStatus !== "flagged") {
+    return null;
+  }
+
+  try {
+    const held = await storage.updateMixerSession(
+      session.id,
+      {
+        depositSignature,
+        senderAddress,
+        depositConfirmedAt: new Date(),
+        status: "held_for_review",
+        screeningStatus: screening.decision === "deny" ? "denied" : "flagged",
+        reviewReason: describeMatches(screening) || session.reviewReason,
+      },
+      ["pending", "expired"],
+      mixerDepositEntries(session, amount, depositSignature)
+    );
+    if (!held) {
+      return { status: 409, error: "Session deposit already confirmed" };
+    }
+    if (screening.decision === "deny") {
+      return { status: 403, error: "Address failed compliance screening" };
+    }
+    return { session: held };
+  } catch (error: any) {
+    if (error.code === "23505") {
+      return { status: 409, error: "Deposit signature already used" };
+    }
+    throw error;
+  }
+}
+
+// Records a verified deposit that won't be mixed and hands it to the session sweeper for refund.
+export async function queueMixerRefund(
+  session: MixerSession,
+  depositSignature: string,
+  senderAddress: string,
+  refundAmount: string,
+  refundReason: RefundReason
+): Promise<DepositConfirmation> {
+  try {
+    const updated = await storage.updateMixerSession(
+      session.id,
+      {
+        depositSignature,
+        senderAddress,
+        depositConfirmedAt: new Date(),
+        status: "refund_pending",
+        refundAmount,
+        refundReason,
+      },
+      ["pending", "expired"],
+      mixerDepositEntries(session, refundAmount, depositSignature)
+    );
+    if (!updated) {
+      return { status: 409, error: "Session deposit already confirmed" };
+    }
+    log.info("Session queued for refund", { sessionId: session.id, refundReason });
+    return { session: updated };
+  } catch (error: any) {
+    if (error.code === "23505") {
+      return { status: 409, error: "Deposit signature already used" };
+    }
+    throw error;
+  }
+}
+
+// Matches a transfer found by the deposit watcher to an open session by asset, amount and sender.
+// Sessions created without a sender are only matched when the amount identifies a single one.
+// A transfer from a known sender that doesn't fit their session is verified and refunded.
+export async function matchMixerDeposit(adapter: ChainAdapter, transfer: IncomingTransfer): Promise<boolean> {
+  if (await storage.getMixerSessionByDepositSignature(transfer.signature)) {
+    return true;
+  }
+
+  const sessions = await storage.getMixerSessionsAwaitingDeposit(
+    adapter.id,
+    new Date(Date.now() - LATE_DEPOSIT_WINDOW_MS)
+  );
+  const sameAsset = sessions.filter((session) => {
+    const token = session.tokenMint ? adapter.getToken(session.tokenMint) : undefined;
+    if (session.tokenMint && !token) return false;
+    return token?.address === transfer.tokenAddress;
+  });
+  const exact = sameAsset.filter((session) => {
+    const token = session.tokenMint ? adapter.getToken(session.tokenMint) : undefined;
+    return toBaseUnits(session.amount, token?.decimals ?? adapter.decimals) === transfer.amount;
+  });
+
+  const isFromSender = (session: MixerSession) =>
+    session.senderAddress.toLowerCase() === transfer.from.toLowerCase();
+  const unassigned = exact.filter((session) => session.senderAddress === "pending");
+  const session =
+    exact.find(isFromSender) ?? (unassigned.length === 1 ? unassigned[0] : undefined);
+
+  if (session) {
+    const result = await confirmMixerDeposit(session, transfer.signature);
+    if ("error" in result && result.status !== 410 && result.status !== 403) {
+      log.warn("Could not confirm matched deposit", {
+        sessionId: session.id,
+        signature: transfer.signature,
+        reason: result.details ?? result.error,
+      });
+      return false;
+    }
+
+    log.info("Matched deposit to session", { sessionId: session.id, signature: transfer.signature });
+    return true;
+  }
+
+  const mismatched = sameAsset.find(isFromSender);
+  if (!mismatched) {
+    return false;
+  }
+
+  return refundMismatchedDeposit(adapter, mismatched, transfer);
+}
+
+async function refundMismatchedDeposit(
+  adapter: ChainAdapter,
+  session: MixerSession,
+  transfer: IncomingTransfer
+): Promise<boolean> {
+  const poolAddress = adapter.getPoolAddress();
+  const token = transfer.tokenAddress ? adapter.getToken(transfer.tokenAddress) : undefined;
+  if (!poolAddress) {
+    return false;
+  }
+
+  // Re-verify with the amount actually sent; scanned blocks can include reverted transactions.
+  const amount = fromBaseUnits(transfer.amount, token?.decimals ?? adapter.decimals);
+  const verification = await adapter.verifyDeposit(transfer.signature, session.senderAddress, poolAddress, amount, token);
+  if (!verification.valid) {
+    return false;
+  }
+
+  const held = await holdIfScreened(
+    session,
+    transfer.signature,
+    verification.actualSender ?? session.senderAddress,
+    amount
+  );
+  if (held) {
+    return !("error" in held) || held.status === 403;
+  }
+
+  const refund = await queueMixerRefund(
+    session,
+    transfer.signature,
+    verification.actualSender ?? session.senderAddress,
+    amount,
+    "amount_mismatch"
+  );
+  return !("error" in refund);
+}
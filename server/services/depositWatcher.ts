@@ -0,0 +1,74 @@
+import type { ChainAdapter, IncomingTransfer } from "../chains/types";
+import { getChainAdapters } from "../chains/registry";
+import { storage } from "../storage";
+import { logger, newRequestId, withRequestId } from "../logger";
+
+const WATCHER_INTERVAL = 20000; // 20 seconds
+
+const log = logger.child({ component: "DepositWatcher" });
+
+// Returns true once the transfer has been attributed, so later handlers skip it.
+export type DepositHandler = (adapter: ChainAdapter, transfer: IncomingTransfer) => Promise<boolean>;
+
+const handlers: DepositHandler[] = [];
+const scanning = new Set<string>();
+
+export function registerDepositHandler(handler: DepositHandler): void {
+  handlers.push(handler);
+}
+
+export function startDepositWatcher(): void {
+  log.info("Starting deposit watcher", { intervalMs: WATCHER_INTERVAL });
+  const adapters = getChainAdapters();
+
+  for (const adapter of adapters) {
+    adapter.onDepositActivity?.(() => {
+      void scanChain(adapter);
+    });
+  }
+
+  setInterval(() => {
+    for (const adapter of adapters) {
+      void scanChain(adapter);
+    }
+  }, WATCHER_INTERVAL);
+
+  for (const adapter of adapters) {
+    void scanChain(adapter);
+  }
+}
+
+async function scanChain(adapter: ChainAdapter): Promise<void> {
+  if (scanning.has(adapter.id)) return;
+  scanning.add(adapter.id);
+
+  try {
+    // Cursors are persisted so deposits made while the server was down are still picked up.
+    const saved = await storage.getDepositScanCursor(adapter.id);
+    const { transfers, cursor } = await adapter.scanDeposits(saved?.cursor ?? null);
+
+    for (const transfer of transfers) {
+      // Each transfer gets its own request id, carried through confirmation into the payout it queues.
+      await withRequestId(newRequestId(), () => handleTransfer(adapter, transfer));
+    }
+
+    // Only advanced once the transfers are handled; handlers skip ones they have already recorded.
+    if (cursor !== null && cursor !== saved?.cursor) {
+      await storage.setDepositScanCursor(adapter.id, cursor);
+    }
+  } catch (error) {
+    log.error("Error scanning chain", { chain: adapter.id, error });
+  } finally {
+    scanning.delete(adapter.id);
+  }
+}
+
+async function handleTransfer(adapter: ChainAdapter, transfer: IncomingTransfer): Promise<void> {
+  for (const handler of handlers) {
+    try {
+      if (await handler(adapter, transfer)) return;
+    } catch (error) {
+      log.error("Error handling transfer", { chain: adapter.id, signature: transfer.signature, error });
+    }
+  }
+}
@@ -0,0 +1,579 @@
+import { createHmac, randomBytes, randomInt } from "crypto";
+import bs58 from "bs58";
+import { LangEn } from "ethers";
+import { storage } from "../storage";
+import { comparePasswords, hashPassword } from "../auth";
+import type { GiftVault, GiftVaultClaim, GiftVaultSplitMode } from "@shared/schema";
+import type { ChainAdapter, IncomingTransfer, PayoutResult } from "../chains/types";
+import { getChainAdapter, getGiftVaultToken } from "../chains/registry";
+import { fromBaseUnits, toBaseUnits } from "../chains/units";
+import { screenAddresses } from "../screening";
+import { giftVaultClaimEntries, giftVaultDepositEntries, giftVaultReclaimEntries } from "./ledger";
+import { logger } from "../logger";
+
+export type GiftVaultResult =
+  | { vault: GiftVault }
+  | { status: number; error: string; details?: string };
+
+export const DEFAULT_VAULT_EXPIRY_DAYS = 30;
+export const MAX_VAULT_EXPIRY_DAYS = 365;
+export const MAX_VAULT_CLAIMS = 1000;
+
+// How long after expiry the deposit watcher still attributes a creator's deposit to their vault.
+const LATE_DEPOSIT_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Six words from the 2048-word BIP-39 English list: 66 bits, easy to read aloud and type.
+const CODE_WORDS = 6;
+const CODE_WORDLIST_SIZE = 2048;
+
+const log = logger.child({ component: "GiftVaults" });
+
+function resolveCodeSecret(): string {
+  const secret = process.env.GIFT_VAULT_CODE_SECRET;
+  if (!secret && process.env.NODE_ENV === "production") {
+    throw new Error("GIFT_VAULT_CODE_SECRET must be set in production");
+  }
+  return secret || "development-gift-vault-code-secret";
+}
+
+const codeSecret = resolveCodeSecret();
+
+export function generateVaultCode(): string {
+  const wordlist = LangEn.wordlist();
+  const words: string[] = [];
+  for (let i = 0; i < CODE_WORDS; i++) {
+    words.push(wordlist.getWord(randomInt(CODE_WORDLIST_SIZE)));
+  }
+  return words.join("-");
+}
+
+// Case, spacing and separators don't matter when a code is typed back in.
+export function normalizeVaultCode(code: string): string {
+  return code.toLowerCase().split(/[^a-z]+/).filter(Boolean).join("-");
+}
+
+export function isWellFormedVaultCode(code: string): boolean {
+  return normalizeVaultCode(code).split("-").length === CODE_WORDS;
+}
+
+// Keyed so the stored lookup can't be used to test guesses without the server secret.
+function codeLookupKey(code: string): string {
+  return createHmac("sha256", codeSecret).update(normalizeVaultCode(code)).digest("hex");
+}
+
+export async function findGiftVaultByCode(code: string): Promise<GiftVault | undefined> {
+  if (!isWellFormedVaultCode(code)) {
+    return undefined;
+  }
+  const vault = await storage.getGiftVaultByCodeLookup(codeLookupKey(code));
+  if (!vault || !(await comparePasswords(normalizeVaultCode(code), vault.codeHash))) {
+    return undefined;
+  }
+  return vault;
+}
+
+// Must match the messages the client asks the wallet to sign, byte for byte.
+export function claimMessage(code: string): string {
+  return `Claim gift vault with code: ${normalizeVaultCode(code)}`;
+}
+
+export function reclaimMessage(vaultId: string): string {
+  return `Reclaim gift vault: ${vaultId}`;
+}
+
+function verifyWalletSignature(adapter: ChainAdapter, message: string, signatureBase64: string, address: string): boolean {
+  const signature = Buffer.from(signatureBase64, "base64");
+  return signature.length === 64 && adapter.verifySignedMessage(message, bs58.encode(signature), address);
+}
+
+// Expiry is enforced lazily, so an unclaimed vault past its expiry reads as expired.
+export function getVaultStatus(vault: GiftVault): string {
+  if ((vault.status === "pending" || vault.status === "funded") && vault.expiresAt <= new Date()) {
+    return "expired";
+  }
+  return vault.status;
+}
+
+export interface GiftVaultOptions {
+  expiresInDays: number;
+  maxClaims: number;
+  splitMode: GiftVaultSplitMode;
+}
+
+export async function createGiftVault(
+  creatorAddress: string,
+  amount: string,
+  options: GiftVaultOptions
+): Promise<{ vault: GiftVault; code: string } | { status: number; error: string; details?: string }> {
+  const adapter = getChainAdapter("solana");
+  const token = getGiftVaultToken();
+  if (!adapter || !token) {
+    return { status: 503, error: "Gift vaults are not configured" };
+  }
+
+  if (!adapter.isValidAddress(creatorAddress)) {
+    return { status: 400, error: `Invalid ${adapter.name} address` };
+  }
+
+  let units: bigint;
+  try {
+    units = toBaseUnits(amount, token.decimals);
+  } catch {
+    return { status: 400, error: "Invalid amount" };
+  }
+  if (
+    units < toBaseUnits(token.feePolicy.minDeposit, token.decimals) ||
+    units > toBaseUnits(token.feePolicy.maxDeposit, token.decimals)
+  ) {
+    return {
+      status: 400,
+      error: "Amount out of range",
+      details: `Gift vaults hold between ${token.feePolicy.minDeposit} and ${token.feePolicy.maxDeposit} ${token.symbol}`,
+    };
+  }
+  if (units < BigInt(options.maxClaims)) {
+    return { status: 400, error: "Amount too small to split between that many claims" };
+  }
+
+  const screening = await screenAddresses("gift_vault_create", adapter.id, [
+    { address: creatorAddress, role: "creator" },
+  ]);
+  if (screening.decision !== "allow") {
+    return { status: 403, error: "Address failed compliance screening" };
+  }
+
+  const code = generateVaultCode();
+  const vault = await storage.createGiftVault({
+    chain: adapter.id,
+    creatorAddress,
+    codeLookup: codeLookupKey(code),
+    codeHash: await hashPassword(code),
+    tokenMint: token.address,
+    amount,
+    maxClaims: options.maxClaims,
+    splitMode: options.splitMode,
+    expiresAt: new Date(Date.now() + options.expiresInDays * 24 * 60 * 60 * 1000),
+  });
+  return { vault, code };
+}
+
+// Verifies the creator's token transfer into the pool and moves the vault from pending to funded.
+// A deposit that lands after expiry is still recorded, so it is returned to the creator.
+// Shared by the verify-deposit route and the deposit watcher.
+export async function confirmGiftVaultDeposit(vault: GiftVault, depositSignature: string): Promise<GiftVaultResult> {
+  if ((vault.status !== "pending" && vault.status !== "expired") || vault.depositSignature) {
+    return { status: 400, error: "Vault not awaiting a deposit" };
+  }
+  const expired = getVaultStatus(vault) === "expired";
+
+  const adapter = getChainAdapter(vault.chain);
+  if (!adapter) {
+    return { status: 400, error: "Unsupported chain" };
+  }
+
+  const poolAddress = adapter.getPoolAddress();
+  if (!poolAddress) {
+    return { status: 503, error: `${adapter.name} pool wallet not configured` };
+  }
+
+  const token = adapter.getToken(vault.tokenMint);
+  if (!token) {
+    return { status: 400, error: "Unsupported token" };
+  }
+
+  // Signatures are unique per table; this catches a mixer deposit being replayed here.
+  if (await storage.getMixerSessionByDepositSignature(depositSignature)) {
+    return { status: 409, error: "Deposit signature already used" };
+  }
+
+  const verification = await adapter.verifyDeposit(
+    depositSignature,
+    vault.creatorAddress,
+    poolAddress,
+    vault.amount,
+    token
+  );
+  if (!verification.valid) {
+    return { status: 400, error: "Deposit verification failed", details: verification.error };
+  }
+
+  try {
+    const funded = await storage.updateGiftVault(
+      vault.id,
+      { status: expired ? "expired" : "funded", depositSignature, fundedAt: new Date() },
+      vault.status,
+      giftVaultDepositEntries(vault, depositSignature)
+    );
+    if (!funded) {
+      return { status: 409, error: "Vault deposit already confirmed" };
+    }
+    log.info("Vault funded", { vaultId: vault.id, signature: depositSignature, expired });
+    if (expired) {
+      return { status: 410, error: "Gift vault expired", details: "The deposit was recorded and will be returned to the creator" };
+    }
+    return { vault: funded };
+  } catch (error: any) {
+    if (error.code === "23505") {
+      return { status: 409, error: "Deposit signature already used" };
+    }
+    throw error;
+  }
+}
+
+// Deposit watcher handler: funds the creator's oldest unfunded vault of exactly the transferred amount.
+export async function matchGiftVaultDeposit(adapter: ChainAdapter, transfer: IncomingTransfer): Promise<boolean> {
+  const token = getGiftVaultToken();
+  if (!token || transfer.tokenAddress !== token.address) {
+    return false;
+  }
+
+  if (await storage.getGiftVaultByDepositSignature(transfer.signature)) {
+    return true;
+  }
+
+  const vaults = await storage.getGiftVaultsAwaitingDeposit(
+    adapter.id,
+    new Date(Date.now() - LATE_DEPOSIT_WINDOW_MS)
+  );
+  const vault = vaults.find((candidate) =>
+    candidate.creatorAddress === transfer.from &&
+    toBaseUnits(candidate.amount, token.decimals) === transfer.amount
+  );
+  if (!vault) {
+    return false;
+  }
+
+  const result = await confirmGiftVaultDeposit(vault, transfer.signature);
+  if ("error" in result && result.status !== 410) {
+    log.warn("Could not confirm matched vault deposit", {
+      vaultId: vault.id,
+      signature: transfer.signature,
+      reason: result.details ?? result.error,
+    });
+    return false;
+  }
+  return true;
+}
+
+// Equal splits give every claimer the same share, with the last one also taking the rounding
+// dust. Random splits draw each share between half and one and a half times the average of what
+// is left, so early claimers can't drain the vault and nobody ends up with nothing.
+export function nextClaimShare(vault: GiftVault, decimals: number): bigint {
+  const total = toBaseUnits(vault.amount, decimals);
+  const remaining = total - toBaseUnits(vault.claimedAmount, decimals);
+  const claimsLeft = BigInt(vault.maxClaims - vault.claimedCount);
+  if (claimsLeft <= BigInt(1)) {
+    return remaining;
+  }
+
+  if (vault.splitMode === "random") {
+    const average = remaining / claimsLeft;
+    const min = average / BigInt(2) > BigInt(0) ? average / BigInt(2) : BigInt(1);
+    const max = average + average / BigInt(2);
+    const span = max - min + BigInt(1);
+    return min + BigInt(`0x${randomBytes(16).toString("hex")}`) % span;
+  }
+  return total / BigInt(vault.maxClaims);
+}
+
+// Pays the next share of a funded vault to the claimer, who proves control of the address by
+// signing claimMessage(code) with it. The share is only handed back when the payout was never
+// broadcast; after that, the claim stays in "claiming" until its transaction is checked on chain.
+export async function claimGiftVault(
+  code: string,
+  claimerAddress: string,
+  signatureBase64: string
+): Promise<{ vault: GiftVault; claim: GiftVaultClaim } | { status: number; error: string; details?: string }> {
+  const adapter = getChainAdapter("solana");
+  if (!adapter) {
+    return { status: 503, error: "Gift vaults are not configured" };
+  }
+
+  if (!adapter.isValidAddress(claimerAddress)) {
+    return { status: 400, error: `Invalid ${adapter.name} address` };
+  }
+
+  if (!verifyWalletSignature(adapter, claimMessage(code), signatureBase64, claimerAddress)) {
+    return { status: 401, error: "Invalid signature" };
+  }
+
+  const vault = await findGiftVaultByCode(code);
+  if (!vault) {
+    return { status: 404, error: "Gift vault not found" };
+  }
+
+  const status = getVaultStatus(vault);
+  if (status === "expired" || status === "reclaiming" || status === "reclaimed") {
+    return { status: 410, error: "Gift vault expired" };
+  }
+  if (status !== "funded") {
+    return {
+      status: 409,
+      error: status === "pending" ? "Gift vault has not been funded yet" : "Gift vault already fully claimed",
+    };
+  }
+
+  const claims = await storage.getGiftVaultClaims(vault.id);
+  if (claims.some((claim) => claim.claimerAddress === claimerAddress)) {
+    return { status: 409, error: "This wallet has already claimed from this gift vault" };
+  }
+
+  const token = adapter.getToken(vault.tokenMint);
+  if (!token) {
+    return { status: 400, error: "Unsupported token" };
+  }
+
+  const screening = await screenAddresses("gift_vault_claim", vault.chain, [
+    { address: claimerAddress, role: "claimer" },
+  ], vault.id);
+  if (screening.decision !== "allow") {
+    return { status: 403, error: "Address failed compliance screening" };
+  }
+
+  let claim: GiftVaultClaim | undefined;
+  try {
+    claim = await storage.reserveGiftVaultClaim(vault, {
+      vaultId: vault.id,
+      claimerAddress,
+      amount: fromBaseUnits(nextClaimShare(vault, token.decimals), token.decimals),
+    });
+  } catch (error: any) {
+    if (error.code === "23505") {
+      return { status: 409, error: "This wallet has already claimed from this gift vault" };
+    }
+    throw error;
+  }
+  if (!claim) {
+    return { status: 409, error: "Gift vault changed while claiming", details: "Another claim went through first; please try again" };
+  }
+
+  let signed = false;
+  let payout: PayoutResult;
+  try {
+    payout = await adapter.sendPayout(claimerAddress, claim.amount, token, async (transfer) => {
+      const recorded = await storage.recordGiftVaultClaimPayout(
+        claim.id,
+        transfer.signature,
+        transfer.rawTransaction,
+        transfer.lastValidBlockHeight ?? null
+      );
+      if (!recorded) {
+        throw new Error("Claim is no longer in progress");
+      }
+      signed = true;
+    });
+  } catch (error: any) {
+    if (signed) {
+      log.warn("Vault payout outcome unknown after broadcast", { vaultId: vault.id, claimId: claim.id, error });
+      return {
+        status: 502,
+        error: "Payout not confirmed yet",
+        details: "Your share was sent and is awaiting confirmation; check your wallet shortly",
+      };
+    }
+
+    log.error("Vault payout failed", { vaultId: vault.id, claimId: claim.id, error });
+    await storage.releaseGiftVaultClaim(claim);
+    return { status: 502, error: "Payout failed", details: "Your share is still available; please try again" };
+  }
+
+  const completed = await storage.completeGiftVaultClaim(
+    claim,
+    payout.signature,
+    giftVaultClaimEntries(vault, claim, payout)
+  );
+  log.info("Vault share claimed", { vaultId: vault.id, claimId: claim.id, signature: payout.signature });
+  return {
+    vault: (await storage.getGiftVault(vault.id)) ?? vault,
+    claim: completed ?? claim,
+  };
+}
+
+// Lets the creator of an expired vault trigger the return of its remainder themselves, authorized
+// by signing reclaimMessage(vault.id). The sweeper does the same on its own; this covers the wait.
+export async function reclaimGiftVault(vault: GiftVault, signatureBase64: string): Promise<GiftVaultResult> {
+  const adapter = getChainAdapter(vault.chain);
+  if (!adapter) {
+    return { status: 400, error: "Unsupported chain" };
+  }
+
+  if (!verifyWalletSignature(adapter, reclaimMessage(vault.id), signatureBase64, vault.creatorAddress)) {
+    return { status: 401, error: "Invalid signature" };
+  }
+
+  const status = getVaultStatus(vault);
+  if (status !== "expired") {
+    const errors: Record<string, string> = {
+      claimed: "Gift vault was fully claimed",
+      reclaiming: "Gift vault is already being reclaimed",
+      reclaimed: "Gift vault already reclaimed",
+    };
+    return { status: 409, error: errors[status] ?? "Only expired gift vaults can be reclaimed" };
+  }
+  if (!vault.depositSignature) {
+    return { status: 409, error: "Gift vault was never funded" };
+  }
+
+  return returnGiftVaultRemainder(vault);
+}
+
+// Sends whatever was not claimed from an expired vault back to its creator. Same failure handling
+// as claims: once the return has been broadcast, the vault stays in "reclaiming" until its
+// transaction is checked on chain.
+export async function returnGiftVaultRemainder(vault: GiftVault): Promise<GiftVaultResult> {
+  const adapter = getChainAdapter(vault.chain);
+  if (!adapter) {
+    return { status: 400, error: "Unsupported chain" };
+  }
+
+  const token = adapter.getToken(vault.tokenMint);
+  if (!token) {
+    return { status: 400, error: "Unsupported token" };
+  }
+
+  const reclaiming = await storage.beginGiftVaultReclaim(vault.id);
+  if (!reclaiming || !reclaiming.reclaimAmount) {
+    return {
+      status: 409,
+      error: "Gift vault is not reclaimable right now",
+      details: "It may have been reclaimed already or have a claim still in progress",
+    };
+  }
+
+  let signed = false;
+  let payout: PayoutResult;
+  try {
+    payout = await adapter.sendPayout(vault.creatorAddress, reclaiming.reclaimAmount, token, async (transfer) => {
+      const recorded = await storage.recordGiftVaultReclaimPayout(
+        vault.id,
+        transfer.signature,
+        transfer.rawTransaction,
+        transfer.lastValidBlockHeight ?? null
+      );
+      if (!recorded) {
+        throw new Error("Reclaim is no longer in progress");
+      }
+      signed = true;
+    });
+  } catch (error: any) {
+    if (signed) {
+      log.warn("Vault reclaim outcome unknown after broadcast", { vaultId: vault.id, error });
+      await storage.updateGiftVault(vault.id, { reclaimError: error?.message || "Unknown error" }, "reclaiming");
+      return {
+        status: 502,
+        error: "Reclaim not confirmed yet",
+        details: "The remainder was sent and is awaiting confirmation; check your wallet shortly",
+      };
+    }
+
+    log.error("Vault reclaim failed", { vaultId: vault.id, error });
+    await storage.cancelGiftVaultReclaim(vault.id, error?.message || "Unknown error");
+    return { status: 502, error: "Reclaim failed", details: "The remainder is still in the vault; please try again" };
+  }
+
+  const reclaimed = await storage.updateGiftVault(
+    vault.id,
+    { status: "reclaimed", reclaimSignature: payout.signature, reclaimedAt: new Date(), reclaimError: null },
+    "reclaiming",
+    giftVaultReclaimEntries(reclaiming, payout)
+  );
+  log.info("Vault remainder returned to creator", { vaultId: vault.id, signature: payout.signature });
+  return { vault: reclaimed ?? reclaiming };
+}
+
+// Settles a claim whose request died or ended without confirmation. Without a recorded transaction
+// nothing was broadcast, so the share goes back; otherwise the chain decides. Pending transfers are
+// left for the next pass.
+export async function resolveGiftVaultClaim(claim: GiftVaultClaim): Promise<void> {
+  const vault = await storage.getGiftVault(claim.vaultId);
+  const adapter = vault && getChainAdapter(vault.chain);
+  if (!vault || !adapter) {
+    return;
+  }
+
+  if (!claim.payoutSignature || !claim.payoutTransaction) {
+    await storage.releaseGiftVaultClaim(claim);
+    log.warn("Released vault claim interrupted before broadcast", { vaultId: vault.id, claimId: claim.id });
+    return;
+  }
+
+  const status = await adapter.getPayoutStatus({
+    signature: claim.payoutSignature,
+    rawTransaction: claim.payoutTransaction,
+    lastValidBlockHeight: claim.payoutLastValidBlockHeight,
+    amount: claim.amount,
+  });
+  if (status.state === "pending") {
+    return;
+  }
+
+  if (status.state === "confirmed") {
+    const payout = { signature: claim.payoutSignature, amount: claim.amount, networkFee: status.networkFee };
+    await storage.completeGiftVaultClaim(claim, payout.signature, giftVaultClaimEntries(vault, claim, payout));
+    log.info("Vault share claimed", { vaultId: vault.id, claimId: claim.id, signature: payout.signature });
+    return;
+  }
+
+  log.error("Vault payout failed", {
+    vaultId: vault.id,
+    claimId: claim.id,
+    error: status.state === "failed" ? status.error : "Payout transaction dropped before confirmation",
+  });
+  await storage.releaseGiftVaultClaim(claim);
+}
+
+// Same as resolveGiftVaultClaim, for the return of a vault's remainder to its creator.
+export async function resolveGiftVaultReclaim(vault: GiftVault): Promise<void> {
+  if (!vault.reclaimSignature || !vault.reclaimTransaction || !vault.reclaimAmount) {
+    if (!vault.reclaimStartedAt) {
+      log.error("Vault reclaim in flight before transactions were recorded needs manual review", { vaultId: vault.id });
+      return;
+    }
+    if (await storage.cancelGiftVaultReclaim(vault.id, "Reclaim interrupted before broadcast")) {
+      log.warn("Reset vault reclaim interrupted before broadcast", { vaultId: vault.id });
+    }
+    return;
+  }
+
+  const adapter = getChainAdapter(vault.chain);
+  if (!adapter) {
+    return;
+  }
+
+  const status = await adapter.getPayoutStatus({
+    signature: vault.reclaimSignature,
+    rawTransaction: vault.reclaimTransaction,
+    lastValidBlockHeight: vault.reclaimLastValidBlockHeight,
+    amount: vault.reclaimAmount,
+  });
+  if (status.state === "pending") {
+    return;
+  }
+
+  if (status.state === "confirmed") {
+    const payout = { signature: vault.reclaimSignature, amount: vault.reclaimAmount, networkFee: status.networkFee };
+    await storage.updateGiftVault(
+      vault.id,
+      { status: "reclaimed", reclaimedAt: new Date(), reclaimError: null },
+      "reclaiming",
+      giftVaultReclaimEntries(vault, payout)
+    );
+    log.info("Vault remainder returned to creator", { vaultId: vault.id, signature: payout.signature });
+    return;
+  }
+
+  const error = status.state === "failed" ? status.error : "Reclaim transaction dropped before confirmation";
+  log.error("Vault reclaim failed", { vaultId: vault.id, error });
+  await storage.updateGiftVault(
+    vault.id,
+    {
+      status: "expired",
+      reclaimAmount: null,
+      reclaimSignature: null,
+      reclaimTransaction: null,
+      reclaimStartedAt: null,
+      reclaimError: error,
+    },
+    "reclaiming"
+  );
+}
@@ -0,0 +1,81 @@
+import { storage } from "../storage";
+import { resolveGiftVaultClaim, resolveGiftVaultReclaim, returnGiftVaultRemainder } from "./giftVaultService";
+import { logger } from "../logger";
+
+const SWEEPER_INTERVAL = 5 * 60 * 1000; // 5 minutes
+// Claims and reclaims are sent within a request; one still in flight after this long has died or
+// ended without confirmation.
+const STALE_PAYOUT_MS = 10 * 60 * 1000;
+
+const log = logger.child({ component: "GiftVaultSweeper" });
+
+let sweeperRunning = false;
+
+export function startGiftVaultSweeper(): void {
+  log.info("Starting gift vault sweeper", { intervalMs: SWEEPER_INTERVAL });
+
+  setInterval(() => {
+    void sweepGiftVaults();
+  }, SWEEPER_INTERVAL);
+
+  void sweepGiftVaults();
+}
+
+// Settles stale claims and reclaims, marks vaults past their expiry as expired and returns whatever
+// was not claimed to the creator. Failed returns are retried on the next pass.
+export async function sweepGiftVaults(): Promise<void> {
+  if (sweeperRunning) return;
+  sweeperRunning = true;
+
+  try {
+    const staleBefore = new Date(Date.now() - STALE_PAYOUT_MS);
+    for (const claim of await storage.getStaleGiftVaultClaims(staleBefore)) {
+      try {
+        await resolveGiftVaultClaim(claim);
+      } catch (error) {
+        log.error("Error resolving vault claim", { vaultId: claim.vaultId, claimId: claim.id, error });
+      }
+    }
+
+    for (const vault of await storage.getStaleGiftVaultReclaims(staleBefore)) {
+      try {
+        await resolveGiftVaultReclaim(vault);
+      } catch (error) {
+        log.error("Error resolving vault reclaim", { vaultId: vault.id, error });
+      }
+    }
+
+    for (const claim of await storage.getGiftVaultClaimsByStatus("review")) {
+      log.error("Vault claim needs manual review; the vault can't be reclaimed until it is settled", {
+        vaultId: claim.vaultId,
+        claimId: claim.id,
+      });
+    }
+
+    const expired = await storage.expireGiftVaults();
+    if (expired.length > 0) {
+      log.info("Expired gift vaults", {
+        count: expired.length,
+        funded: expired.filter((vault) => vault.depositSignature).length,
+      });
+    }
+
+    for (const vault of await storage.getExpiredGiftVaultsWithRemainder()) {
+      try {
+        const result = await returnGiftVaultRemainder(vault);
+        if ("error" in result) {
+          log.warn("Could not return vault remainder", {
+            vaultId: vault.id,
+            reason: result.details ?? result.error,
+          });
+        }
+      } catch (error) {
+        log.error("Error returning vault remainder", { vaultId: vault.id, error });
+      }
+    }
+  } catch (error) {
+    log.error("Error in sweeper loop", { error });
+  } finally {
+    sweeperRunning = false;
+  }
+}
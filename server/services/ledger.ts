@@ -0,0 +1,114 @@
+import { randomUUID } from "crypto";
+import type { GiftVault, GiftVaultClaim, InsertLedgerEntry, MixerSession } from "@shared/schema";
+import type { PayoutResult } from "../chains/types";
+import { fromBaseUnits, toBaseUnits } from "../chains/units";
+
+// pool_custody is what the pool holds on chain; user_deposits is owed back to mixer depositors until
+// paid out or refunded; liabilities covers other balances owed to users, such as funded gift vaults.
+export type LedgerAccount = "pool_custody" | "user_deposits" | "liabilities" | "fee_revenue" | "network_fees";
+
+// Ledger amounts share the numeric(38, 18) column scale, so arithmetic happens at 18 decimals.
+const LEDGER_SCALE = 18;
+
+export interface Posting {
+  account: LedgerAccount;
+  side: "debit" | "credit";
+  amount: string;
+  tokenMint: string | null;
+}
+
+export function journal(
+  chain: string,
+  postings: Posting[],
+  details: { subjectId?: string; reference?: string | null; memo?: string }
+): InsertLedgerEntry[] {
+  const totals = new Map<string, bigint>();
+  for (const posting of postings) {
+    const units = toBaseUnits(posting.amount, LEDGER_SCALE);
+    const key = posting.tokenMint ?? "";
+    totals.set(key, (totals.get(key) ?? BigInt(0)) + (posting.side === "debit" ? units : -units));
+  }
+  if (Array.from(totals.values()).some((total) => total !== BigInt(0))) {
+    throw new Error(`Unbalanced ledger entry: ${details.memo ?? "no memo"}`);
+  }
+
+  const journalId = randomUUID();
+  return postings
+    .filter((posting) => toBaseUnits(posting.amount, LEDGER_SCALE) > BigInt(0))
+    .map((posting) => ({
+      journalId,
+      ...posting,
+      chain,
+      subjectId: details.subjectId ?? null,
+      reference: details.reference ?? null,
+      memo: details.memo ?? null,
+    }));
+}
+
+// Books `deposited - paid` to fee revenue, as a debit if more was paid than deposited.
+function feeRevenuePosting(deposited: string, paid: string, tokenMint: string | null): Posting {
+  const difference = toBaseUnits(deposited, LEDGER_SCALE) - toBaseUnits(paid, LEDGER_SCALE);
+  return {
+    account: "fee_revenue",
+    side: difference >= BigInt(0) ? "credit" : "debit",
+    amount: fromBaseUnits(difference >= BigInt(0) ? difference : -difference, LEDGER_SCALE),
+    tokenMint,
+  };
+}
+
+// The pool paid the network fee in the chain's native asset, whatever asset was sent.
+function networkFeePostings(networkFee: string): Posting[] {
+  return [
+    { account: "network_fees", side: "debit", amount: networkFee, tokenMint: null },
+    { account: "pool_custody", side: "credit", amount: networkFee, tokenMint: null },
+  ];
+}
+
+export function mixerDepositEntries(session: MixerSession, amount: string, depositSignature: string): InsertLedgerEntry[] {
+  return journal(session.chain, [
+    { account: "pool_custody", side: "debit", amount, tokenMint: session.tokenMint },
+    { account: "user_deposits", side: "credit", amount, tokenMint: session.tokenMint },
+  ], { subjectId: session.id, reference: depositSignature, memo: "Mixer deposit received" });
+}
+
+// The part of the deposit that isn't paid out (service fee plus the quoted network fee) is revenue.
+export function mixerPayoutEntries(session: MixerSession, payout: PayoutResult): InsertLedgerEntry[] {
+  return journal(session.chain, [
+    { account: "user_deposits", side: "debit", amount: session.amount, tokenMint: session.tokenMint },
+    { account: "pool_custody", side: "credit", amount: payout.amount, tokenMint: session.tokenMint },
+    feeRevenuePosting(session.amount, payout.amount, session.tokenMint),
+    ...networkFeePostings(payout.networkFee),
+  ], { subjectId: session.id, reference: payout.signature, memo: "Mixer payout sent" });
+}
+
+export function mixerRefundEntries(session: MixerSession, refund: PayoutResult): InsertLedgerEntry[] {
+  return journal(session.chain, [
+    { account: "user_deposits", side: "debit", amount: refund.amount, tokenMint: session.tokenMint },
+    { account: "pool_custody", side: "credit", amount: refund.amount, tokenMint: session.tokenMint },
+    ...networkFeePostings(refund.networkFee),
+  ], { subjectId: session.id, reference: refund.signature, memo: "Mixer deposit refunded" });
+}
+
+export function giftVaultDepositEntries(vault: GiftVault, depositSignature: string): InsertLedgerEntry[] {
+  return journal(vault.chain, [
+    { account: "pool_custody", side: "debit", amount: vault.amount, tokenMint: vault.tokenMint },
+    { account: "liabilities", side: "credit", amount: vault.amount, tokenMint: vault.tokenMint },
+  ], { subjectId: vault.id, reference: depositSignature, memo: "Gift vault funded" });
+}
+
+export function giftVaultClaimEntries(vault: GiftVault, claim: GiftVaultClaim, payout: PayoutResult): InsertLedgerEntry[] {
+  return journal(vault.chain, [
+    { account: "liabilities", side: "debit", amount: claim.amount, tokenMint: vault.tokenMint },
+    { account: "pool_custody", side: "credit", amount: payout.amount, tokenMint: vault.tokenMint },
+    ...networkFeePostings(payout.networkFee),
+  ], { subjectId: vault.id, reference: payout.signature, memo: "Gift vault claimed" });
+}
+
+// `vault.reclaimAmount` is the unclaimed remainder, fixed when the reclaim started.
+export function giftVaultReclaimEntries(vault: GiftVault, payout: PayoutResult): InsertLedgerEntry[] {
+  return journal(vault.chain, [
+    { account: "liabilities", side: "debit", amount: vault.reclaimAmount ?? vault.amount, tokenMint: vault.tokenMint },
+    { account: "pool_custody", side: "credit", amount: payout.amount, tokenMint: vault.tokenMint },
+    ...networkFeePostings(payout.networkFee),
+  ], { subjectId: vault.id, reference: payout.signature, memo: "Gift vault reclaimed by creator" });
+}
@@ -0,0 +1,253 @@
+import { storage } from "../storage";
+import type { MixerPayoutAttempt, MixerSession } from "@shared/schema";
+import type { PayoutResult, PayoutSignedCallback } from "../chains/types";
+import { getChainAdapter } from "../chains/registry";
+import { mixerPayoutEntries } from "./ledger";
+import { logger, getRequestId, newRequestId, withRequestId } from "../logger";
+import { payoutAttempts } from "../metrics";
+
+const WORKER_INTERVAL = 15000; // 15 seconds
+const MAX_PAYOUT_ATTEMPTS = 5;
+const BASE_RETRY_DELAY_MS = 30000;
+const MAX_RETRY_DELAY_MS = 30 * 60 * 1000;
+
+export type PayoutExecutor = (session: MixerSession, onSigned: PayoutSignedCallback) => Promise<PayoutResult>;
+
+const log = logger.child({ component: "PayoutWorker" });
+
+let executePayout: PayoutExecutor | null = null;
+let workerRunning = false;
+// Request that queued each payout, so the worker's entries share its id.
+const queuedBy = new Map<string, string>();
+
+function getRetryDelay(attemptNumber: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * Math.pow(2, attemptNumber - 1), MAX_RETRY_DELAY_MS);
+}
+
+export async function startPayoutWorker(executor: PayoutExecutor): Promise<void> {
+  executePayout = executor;
+  log.info("Starting payout worker", { intervalMs: WORKER_INTERVAL });
+
+  try {
+    const inFlight = await storage.getMixerSessionsByStatus("payout_processing");
+    if (inFlight.length > 0) {
+      log.warn("Payouts in flight at startup will be checked on chain", { count: inFlight.length });
+    }
+  } catch (error) {
+    log.error("Failed to load in-flight payouts", { error });
+  }
+
+  setInterval(() => {
+    void processPendingPayouts();
+  }, WORKER_INTERVAL);
+
+  void processPendingPayouts();
+}
+
+// Triggers an immediate pass so freshly confirmed deposits don't wait for the next tick.
+export function enqueuePayout(sessionId: string): void {
+  const requestId = getRequestId();
+  if (requestId) queuedBy.set(sessionId, requestId);
+  log.info("Payout queued", { sessionId });
+  void processPendingPayouts();
+}
+
+export async function processPendingPayouts(): Promise<void> {
+  if (workerRunning || !executePayout) return;
+  workerRunning = true;
+
+  try {
+    await resolveInFlightPayouts();
+
+    const sessions = await storage.getPendingMixerSessions();
+
+    for (const session of sessions) {
+      const requestId = queuedBy.get(session.id) ?? newRequestId();
+      queuedBy.delete(session.id);
+      try {
+        await withRequestId(requestId, () => processPayout(session.id));
+      } catch (error) {
+        log.error("Error processing session", { sessionId: session.id, requestId, error });
+      }
+    }
+  } catch (error) {
+    log.error("Error in worker loop", { error });
+  } finally {
+    workerRunning = false;
+  }
+}
+
+// Passes don't overlap, so a session still in payout_processing when one starts was interrupted by a
+// restart or ended in an error after its transfer was broadcast. Its latest attempt decides whether
+// anything can be on chain.
+async function resolveInFlightPayouts(): Promise<void> {
+  for (const session of await storage.getMixerSessionsByStatus("payout_processing")) {
+    try {
+      await withRequestId(newRequestId(), () => resolvePayout(session));
+    } catch (error) {
+      log.error("Error resolving in-flight payout", { sessionId: session.id, error });
+    }
+  }
+}
+
+async function resolvePayout(session: MixerSession): Promise<void> {
+  const attempt = await storage.getLatestPayoutAttempt(session.id);
+  if (!attempt) {
+    return;
+  }
+
+  if (attempt.status === "started") {
+    // Never signed, so nothing was broadcast.
+    const interrupted = await storage.updatePayoutAttempt(
+      attempt.id,
+      { status: "interrupted", finishedAt: new Date() },
+      "started"
+    );
+    if (interrupted) {
+      await storage.updateMixerSession(session.id, {
+        status: "deposit_confirmed",
+        nextPayoutAttemptAt: new Date(),
+      }, "payout_processing");
+      log.warn("Requeued payout interrupted before broadcast", { sessionId: session.id, attemptNumber: attempt.attemptNumber });
+    }
+    return;
+  }
+
+  // Anything else without a recorded transaction (attempts in flight before signing was recorded)
+  // can't be checked and stays put for manual review.
+  if (attempt.status !== "signed" || !attempt.payoutSignature || !attempt.rawTransaction || !attempt.amount) {
+    return;
+  }
+
+  const adapter = getChainAdapter(session.chain);
+  if (!adapter) {
+    return;
+  }
+
+  const status = await adapter.getPayoutStatus({
+    signature: attempt.payoutSignature,
+    rawTransaction: attempt.rawTransaction,
+    amount: attempt.amount,
+    lastValidBlockHeight: attempt.lastValidBlockHeight,
+  });
+  if (status.state === "pending") {
+    return;
+  }
+
+  if (status.state === "confirmed") {
+    payoutAttempts.inc({ chain: session.chain, outcome: "succeeded" });
+    await recordPayoutSuccess(session, attempt, {
+      signature: attempt.payoutSignature,
+      amount: attempt.amount,
+      networkFee: status.networkFee,
+    });
+    return;
+  }
+
+  const message = status.state === "failed" ? status.error : "Payout transaction dropped before confirmation";
+  log.error("Payout attempt failed", { sessionId: session.id, attemptNumber: attempt.attemptNumber, error: message });
+  payoutAttempts.inc({ chain: session.chain, outcome: "failed" });
+  await recordPayoutFailure(session, attempt, message);
+}
+
+async function processPayout(sessionId: string): Promise<void> {
+  const session = await storage.claimMixerSessionForPayout(sessionId);
+  if (!session) {
+    return;
+  }
+
+  const attemptNumber = session.payoutAttempts + 1;
+  const attempt = await storage.createPayoutAttempt({
+    sessionId,
+    attemptNumber,
+    status: "started",
+  });
+
+  let signed = false;
+  let payout: PayoutResult;
+  try {
+    payout = await executePayout!(session, async (transfer) => {
+      const recorded = await storage.updatePayoutAttempt(attempt.id, {
+        status: "signed",
+        amount: transfer.amount,
+        payoutSignature: transfer.signature,
+        rawTransaction: transfer.rawTransaction,
+        lastValidBlockHeight: transfer.lastValidBlockHeight ?? null,
+      }, "started");
+      if (!recorded) {
+        throw new Error("Payout attempt is no longer in progress");
+      }
+      signed = true;
+    });
+  } catch (error: any) {
+    const message = error?.message || String(error);
+
+    if (signed) {
+      // The transfer may still land, so the session stays in payout_processing and the next pass
+      // checks the signed transaction before anything else is sent.
+      log.warn("Payout outcome unknown after broadcast", { sessionId, attemptNumber, error });
+      await storage.updatePayoutAttempt(attempt.id, { error: message });
+      await storage.updateMixerSession(sessionId, { lastPayoutError: message }, "payout_processing");
+      return;
+    }
+
+    log.error("Payout attempt failed", { sessionId, attemptNumber, error });
+    payoutAttempts.inc({ chain: session.chain, outcome: "failed" });
+    await recordPayoutFailure(session, attempt, message);
+    return;
+  }
+
+  payoutAttempts.inc({ chain: session.chain, outcome: "succeeded" });
+
+  // Bookkeeping stays outside the try above: once funds have moved, a failure here must not
+  // be treated as a failed payout and retried.
+  await recordPayoutSuccess(session, attempt, payout);
+}
+
+// Only for attempts known not to have moved funds: never signed, or failed or dropped on chain.
+async function recordPayoutFailure(session: MixerSession, attempt: MixerPayoutAttempt, message: string): Promise<void> {
+  const { attemptNumber } = attempt;
+
+  await storage.updatePayoutAttempt(attempt.id, {
+    status: "failed",
+    error: message,
+    finishedAt: new Date(),
+  });
+
+  if (attemptNumber >= MAX_PAYOUT_ATTEMPTS) {
+    await storage.updateMixerSession(session.id, {
+      status: "payout_failed",
+      payoutAttempts: attemptNumber,
+      nextPayoutAttemptAt: null,
+      lastPayoutError: message,
+    }, "payout_processing");
+    return;
+  }
+
+  await storage.updateMixerSession(session.id, {
+    status: "deposit_confirmed",
+    payoutAttempts: attemptNumber,
+    nextPayoutAttemptAt: new Date(Date.now() + getRetryDelay(attemptNumber)),
+    lastPayoutError: message,
+  }, "payout_processing");
+}
+
+async function recordPayoutSuccess(session: MixerSession, attempt: MixerPayoutAttempt, payout: PayoutResult): Promise<void> {
+  await storage.updatePayoutAttempt(attempt.id, {
+    status: "succeeded",
+    payoutSignature: payout.signature,
+    finishedAt: new Date(),
+  });
+
+  await storage.updateMixerSession(session.id, {
+    payoutSignature: payout.signature,
+    status: "completed",
+    payoutSentAt: new Date(),
+    networkFee: payout.networkFee,
+    payoutAttempts: attempt.attemptNumber,
+    nextPayoutAttemptAt: null,
+    lastPayoutError: null,
+  }, "payout_processing", mixerPayoutEntries(session, payout));
+
+  log.info("Session paid out", { sessionId: session.id, attemptNumber: attempt.attemptNumber, signature: payout.signature });
+}
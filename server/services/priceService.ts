@@ -1,8 +1,13 @@
+import { logger } from "../logger";
+import { priceCacheLookups, priceFallbacks } from "../metrics";
+
 interface PriceCache {
   price: number;
   timestamp: number;
 }
 
+const log = logger.child({ component: "PriceService" });
+
 const priceCache = new Map<string, PriceCache>();
 const CACHE_TTL_MS = 60000;
 const FALLBACK_PRICES: Record<string, number> = {
@@ -17,8 +22,10 @@ export async function getCryptoPrice(coinId: string = 'bitcoin', vsCurrency: str
   const cached = priceCache.get(cacheKey);
   
   if (cached && Date.now() - cached.timestamp < CACHE_TTL_MS) {
+    priceCacheLookups.inc({ result: "hit" });
     return cached.price;
   }
+  priceCacheLookups.inc({ result: "miss" });
 
   try {
     const url = `https://api.coingecko.com/api/v3/simple/price?ids=${coinId}&vs_currencies=${vsCurrency}`;
@@ -30,7 +37,8 @@ export async function getCryptoPrice(coinId: string = 'bitcoin', vsCurrency: str
     
     if (!response.ok) {
       if (response.status === 429) {
-        console.warn(`CoinGecko rate limited, using cached/fallback price for ${coinId}`);
+        log.warn("CoinGecko rate limited, using cached/fallback price", { coinId });
+        priceFallbacks.inc({ source: cached ? "cached" : "static" });
         return cached?.price ?? FALLBACK_PRICES[coinId] ?? 1000;
       }
       throw new Error(`CoinGecko API error: ${response.status}`);
@@ -46,13 +54,15 @@ export async function getCryptoPrice(coinId: string = 'bitcoin', vsCurrency: str
     priceCache.set(cacheKey, { price, timestamp: Date.now() });
     return price;
   } catch (error) {
-    console.error('Error fetching crypto price:', error);
+    log.error("Error fetching crypto price", { coinId, error });
     if (cached) {
-      console.warn(`Using cached price for ${coinId}: $${cached.price}`);
+      log.warn("Using cached price", { coinId, price: cached.price });
+      priceFallbacks.inc({ source: "cached" });
       return cached.price;
     }
     const fallback = FALLBACK_PRICES[coinId] ?? 1000;
-    console.warn(`Using fallback price for ${coinId}: $${fallback}`);
+    log.warn("Using fallback price", { coinId, price: fallback });
+    priceFallbacks.inc({ source: "static" });
     return fallback;
   }
 }
@@ -65,8 +75,10 @@ export async function getMultiplePrices(coinIds: string[], vsCurrency: string =
     const cacheKey = `${coinId}-${vsCurrency}`;
     const cached = priceCache.get(cacheKey);
     if (cached && Date.now() - cached.timestamp < CACHE_TTL_MS) {
+      priceCacheLookups.inc({ result: "hit" });
       result[coinId] = cached.price;
     } else {
+      priceCacheLookups.inc({ result: "miss" });
       uncached.push(coinId);
     }
   }
@@ -81,6 +93,7 @@ export async function getMultiplePrices(coinIds: string[], vsCurrency: string =
       for (const coinId of uncached) {
         result[coinId] = FALLBACK_PRICES[coinId] ?? 1000;
       }
+      priceFallbacks.inc({ source: "static" }, uncached.length);
       return result;
     }
     
@@ -91,13 +104,15 @@ export async function getMultiplePrices(coinIds: string[], vsCurrency: string =
         priceCache.set(`${coinId}-${vsCurrency}`, { price: result[coinId], timestamp: Date.now() });
       } else {
         result[coinId] = FALLBACK_PRICES[coinId] ?? 1000;
+        priceFallbacks.inc({ source: "static" });
       }
     }
   } catch (error) {
-    console.error('Error fetching multiple prices:', error);
+    log.error("Error fetching multiple prices", { coinIds: uncached, error });
     for (const coinId of uncached) {
       result[coinId] = FALLBACK_PRICES[coinId] ?? 1000;
     }
+    priceFallbacks.inc({ source: "static" }, uncached.length);
   }
   
   return result;
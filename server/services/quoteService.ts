@@ -0,0 +1,125 @@
+import { storage } from "../storage";
+import type { MixerQuote } from "@shared/schema";
+import type { ChainAdapter, TokenConfig } from "../chains/types";
+import { toBaseUnits, fromBaseUnits } from "../chains/units";
+
+const QUOTE_TTL_MS = 5 * 60 * 1000; // 5 minutes
+
+export interface QuoteBreakdown {
+  chain: string;
+  tokenMint: string | null;
+  symbol: string;
+  amount: string;
+  serviceFee: string;
+  networkFee: string;
+  payoutAmount: string;
+}
+
+export type QuoteResult =
+  | { quote: QuoteBreakdown; error?: undefined }
+  | { quote?: undefined; error: string };
+
+// Token quotes carry no network fee in token units; the pool pays gas in the native asset.
+export async function calculateQuote(
+  adapter: ChainAdapter,
+  amount: string,
+  token?: TokenConfig
+): Promise<QuoteResult> {
+  const { decimals, feePolicy } = token ?? adapter;
+  const symbol = token?.symbol ?? adapter.nativeSymbol;
+
+  let amountUnits: bigint;
+  try {
+    amountUnits = toBaseUnits(amount, decimals);
+  } catch {
+    return { error: "Invalid amount" };
+  }
+
+  if (amountUnits < toBaseUnits(feePolicy.minDeposit, decimals)) {
+    return { error: `Minimum deposit is ${feePolicy.minDeposit} ${symbol}` };
+  }
+  if (amountUnits > toBaseUnits(feePolicy.maxDeposit, decimals)) {
+    return { error: `Maximum deposit is ${feePolicy.maxDeposit} ${symbol}` };
+  }
+
+  const serviceFeeUnits = feePolicy.serviceFee.type === "percentage"
+    ? (amountUnits * BigInt(feePolicy.serviceFee.bps)) / BigInt(10000)
+    : toBaseUnits(feePolicy.serviceFee.amount, decimals);
+
+  const networkFeeUnits = token
+    ? BigInt(0)
+    : toBaseUnits((await adapter.estimateFee()).fee, decimals);
+  const payoutUnits = amountUnits - serviceFeeUnits - networkFeeUnits;
+
+  if (payoutUnits <= BigInt(0)) {
+    return { error: "Amount too small to cover fees" };
+  }
+
+  return {
+    quote: {
+      chain: adapter.id,
+      tokenMint: token?.address ?? null,
+      symbol,
+      amount: fromBaseUnits(amountUnits, decimals),
+      serviceFee: fromBaseUnits(serviceFeeUnits, decimals),
+      networkFee: fromBaseUnits(networkFeeUnits, decimals),
+      payoutAmount: fromBaseUnits(payoutUnits, decimals),
+    },
+  };
+}
+
+export async function createQuote(
+  adapter: ChainAdapter,
+  amount: string,
+  token?: TokenConfig
+): Promise<{ quote?: MixerQuote; error?: string }> {
+  const result = await calculateQuote(adapter, amount, token);
+  if (!result.quote) {
+    return { error: result.error };
+  }
+
+  const { symbol: _symbol, ...breakdown } = result.quote;
+  const quote = await storage.createMixerQuote({
+    ...breakdown,
+    expiresAt: new Date(Date.now() + QUOTE_TTL_MS),
+  });
+  return { quote };
+}
+
+// Redeems a quote for a new session, checking it was issued for the same chain, asset and amount.
+export async function redeemQuote(
+  quoteId: string,
+  adapter: ChainAdapter,
+  amount: string,
+  token?: TokenConfig
+): Promise<{ quote?: MixerQuote; error?: string }> {
+  const existing = await storage.getMixerQuote(quoteId);
+  if (!existing) {
+    return { error: "Quote not found" };
+  }
+
+  if (existing.chain !== adapter.id) {
+    return { error: "Quote was issued for a different chain" };
+  }
+
+  if (existing.tokenMint !== (token?.address ?? null)) {
+    return { error: "Quote was issued for a different token" };
+  }
+
+  const decimals = token?.decimals ?? adapter.decimals;
+  let amountMatches = false;
+  try {
+    amountMatches = toBaseUnits(existing.amount, decimals) === toBaseUnits(amount, decimals);
+  } catch {
+    amountMatches = false;
+  }
+  if (!amountMatches) {
+    return { error: "Quote was issued for a different amount" };
+  }
+
+  const quote = await storage.redeemMixerQuote(quoteId);
+  if (!quote) {
+    return { error: "Quote has expired or was already used" };
+  }
+  return { quote };
+}
@@ -0,0 +1,204 @@
+import { storage } from "../storage";
+import type { MixerSession } from "@shared/schema";
+import { getChainAdapter } from "../chains/registry";
+import type { PayoutResult } from "../chains/types";
+import { mixerRefundEntries } from "./ledger";
+import { logger } from "../logger";
+
+const SWEEPER_INTERVAL = 60000; // 1 minute
+const MAX_REFUND_ATTEMPTS = 5;
+
+const log = logger.child({ component: "SessionSweeper" });
+
+let sweeperRunning = false;
+
+export function startSessionSweeper(): void {
+  log.info("Starting session sweeper", { intervalMs: SWEEPER_INTERVAL });
+
+  setInterval(() => {
+    void sweepMixerSessions();
+  }, SWEEPER_INTERVAL);
+
+  void sweepMixerSessions();
+}
+
+export async function sweepMixerSessions(): Promise<void> {
+  if (sweeperRunning) return;
+  sweeperRunning = true;
+
+  try {
+    const expired = await storage.expireStaleMixerSessions();
+    if (expired.length > 0) {
+      log.info("Expired sessions without a deposit", { count: expired.length });
+    }
+
+    for (const session of await storage.getMixerSessionsByStatus("payout_failed")) {
+      const queued = await storage.updateMixerSession(
+        session.id,
+        { status: "refund_pending", refundAmount: session.amount, refundReason: "payout_failed" },
+        "payout_failed"
+      );
+      if (queued) {
+        log.info("Session queued for refund after failed payouts", { sessionId: session.id });
+      }
+    }
+
+    for (const session of await storage.getMixerSessionsByStatus("refund_processing")) {
+      try {
+        await resolveRefund(session);
+      } catch (error) {
+        log.error("Error resolving in-flight refund", { sessionId: session.id, error });
+      }
+    }
+
+    for (const session of await storage.getMixerSessionsByStatus("refund_pending")) {
+      try {
+        await processRefund(session.id);
+      } catch (error) {
+        log.error("Error refunding session", { sessionId: session.id, error });
+      }
+    }
+  } catch (error) {
+    log.error("Error in sweeper loop", { error });
+  } finally {
+    sweeperRunning = false;
+  }
+}
+
+// Refunds that can't have moved funds go back to refund_pending, until MAX_REFUND_ATTEMPTS is
+// reached; then the session is left in refund_failed for manual review.
+async function retryOrFailRefund(session: MixerSession, error: string): Promise<void> {
+  const failed = session.refundAttempts >= MAX_REFUND_ATTEMPTS;
+  await storage.updateMixerSession(
+    session.id,
+    {
+      status: failed ? "refund_failed" : "refund_pending",
+      refundSignature: null,
+      refundTransaction: null,
+      refundError: error,
+    },
+    "refund_processing"
+  );
+  if (failed) {
+    log.error("Refund failed for good, needs manual review", { sessionId: session.id, attempts: session.refundAttempts, error });
+  }
+}
+
+// Sweeps don't overlap, so a session in refund_processing when one starts was interrupted by a
+// restart or ended in an error after its refund was broadcast. A recorded transaction is checked on
+// chain; without one nothing was sent.
+async function resolveRefund(session: MixerSession): Promise<void> {
+  if (!session.refundSignature || !session.refundTransaction || !session.refundAmount) {
+    log.warn("Requeued refund interrupted before broadcast", { sessionId: session.id });
+    await retryOrFailRefund(session, "Refund interrupted before broadcast");
+    return;
+  }
+
+  const adapter = getChainAdapter(session.chain);
+  if (!adapter) {
+    return;
+  }
+
+  const status = await adapter.getPayoutStatus({
+    signature: session.refundSignature,
+    rawTransaction: session.refundTransaction,
+    amount: session.refundAmount,
+    lastValidBlockHeight: session.refundLastValidBlockHeight,
+  });
+  if (status.state === "pending") {
+    return;
+  }
+
+  if (status.state === "confirmed") {
+    await recordRefund(session, {
+      signature: session.refundSignature,
+      amount: session.refundAmount,
+      networkFee: status.networkFee,
+    });
+    return;
+  }
+
+  const error = status.state === "failed" ? status.error : "Refund transaction dropped before confirmation";
+  log.error("Refund failed", { sessionId: session.id, error });
+  await retryOrFailRefund(session, error);
+}
+
+// Refunds are sent to the sender recorded from the verified deposit. The signed transaction is
+// stored before it is broadcast, so an error after that leaves the session in refund_processing
+// until the next sweep has checked the chain, rather than risking a second transfer.
+async function processRefund(sessionId: string): Promise<void> {
+  const pending = await storage.getMixerSession(sessionId);
+  if (!pending) {
+    return;
+  }
+  const session = await storage.updateMixerSession(
+    sessionId,
+    { status: "refund_processing", refundAttempts: pending.refundAttempts + 1 },
+    "refund_pending"
+  );
+  if (!session) {
+    return;
+  }
+
+  let signed = false;
+  let refund: PayoutResult;
+  try {
+    const adapter = getChainAdapter(session.chain);
+    if (!adapter) {
+      throw new Error("Unsupported chain for refund");
+    }
+
+    const token = session.tokenMint ? adapter.getToken(session.tokenMint) : undefined;
+    if (session.tokenMint && !token) {
+      throw new Error("Unsupported token for refund");
+    }
+
+    if (!session.refundAmount) {
+      throw new Error("Refund amount missing");
+    }
+
+    refund = await adapter.sendPayout(session.senderAddress, session.refundAmount, token, async (transfer) => {
+      const recorded = await storage.updateMixerSession(
+        sessionId,
+        {
+          refundSignature: transfer.signature,
+          refundTransaction: transfer.rawTransaction,
+          refundLastValidBlockHeight: transfer.lastValidBlockHeight ?? null,
+        },
+        "refund_processing"
+      );
+      if (!recorded) {
+        throw new Error("Refund is no longer in progress");
+      }
+      signed = true;
+    });
+  } catch (error: any) {
+    const message = error?.message || "Unknown error";
+    if (signed) {
+      log.warn("Refund outcome unknown after broadcast", { sessionId, error });
+      await storage.updateMixerSession(sessionId, { refundError: message }, "refund_processing");
+      return;
+    }
+
+    log.error("Refund failed", { sessionId, error });
+    await retryOrFailRefund(session, message);
+    return;
+  }
+
+  await recordRefund(session, refund);
+}
+
+async function recordRefund(session: MixerSession, refund: PayoutResult): Promise<void> {
+  await storage.updateMixerSession(
+    session.id,
+    {
+      status: "refunded",
+      refundSignature: refund.signature,
+      refundedAt: new Date(),
+      refundError: null,
+    },
+    "refund_processing",
+    mixerRefundEntries(session, refund)
+  );
+  log.info("Session refunded", { sessionId: session.id, signature: refund.signature });
+}
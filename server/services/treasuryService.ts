@@ -0,0 +1,169 @@
+import { storage } from "../storage";
+import { getChainAdapters } from "../chains/registry";
+import type { ChainAdapter, TokenConfig } from "../chains/types";
+import { fromBaseUnits, toBaseUnits } from "../chains/units";
+import { logger } from "../logger";
+import { poolBalance } from "../metrics";
+
+const TREASURY_CHECK_INTERVAL = 5 * 60 * 1000; // 5 minutes
+
+const log = logger.child({ component: "Treasury" });
+
+export interface TreasuryAsset {
+  symbol: string;
+  tokenMint: string | null;
+  balance: string;
+  liabilities: string;
+  margin: string;
+  lowBalanceThreshold: string;
+  belowThreshold: boolean;
+}
+
+export interface TreasuryChainReport {
+  chain: string;
+  name: string;
+  poolAddress: string | null;
+  assets: TreasuryAsset[];
+  error?: string;
+}
+
+// Assets currently below their threshold, so alerts fire once per crossing rather than every check.
+const lowAssets = new Set<string>();
+
+function getAssets(adapter: ChainAdapter): (TokenConfig | undefined)[] {
+  return [undefined, ...adapter.tokens];
+}
+
+async function getLiabilityUnits(adapter: ChainAdapter, token?: TokenConfig): Promise<bigint> {
+  const decimals = token?.decimals ?? adapter.decimals;
+  const liabilities = [
+    ...(await storage.getMixerLiabilities()),
+    ...(await storage.getGiftVaultLiabilities()),
+  ];
+  return liabilities
+    .filter((l) => l.chain === adapter.id && (l.tokenMint ?? undefined) === token?.address)
+    .reduce((total, l) => total + toBaseUnits(l.total, decimals), BigInt(0));
+}
+
+async function getAssetReport(adapter: ChainAdapter, token?: TokenConfig): Promise<TreasuryAsset> {
+  const decimals = token?.decimals ?? adapter.decimals;
+  const balance = await adapter.getPoolBalance(token);
+  const liabilities = await getLiabilityUnits(adapter, token);
+  const margin = balance - liabilities;
+  const threshold = token?.lowBalanceThreshold ?? adapter.lowBalanceThreshold;
+
+  return {
+    symbol: token?.symbol ?? adapter.nativeSymbol,
+    tokenMint: token?.address ?? null,
+    balance: fromBaseUnits(balance, decimals),
+    liabilities: fromBaseUnits(liabilities, decimals),
+    margin: fromBaseUnits(margin, decimals),
+    lowBalanceThreshold: threshold,
+    belowThreshold: margin < toBaseUnits(threshold, decimals),
+  };
+}
+
+export async function getTreasuryReport(): Promise<TreasuryChainReport[]> {
+  const reports: TreasuryChainReport[] = [];
+
+  for (const adapter of getChainAdapters()) {
+    const report: TreasuryChainReport = {
+      chain: adapter.id,
+      name: adapter.name,
+      poolAddress: adapter.getPoolAddress(),
+      assets: [],
+    };
+
+    if (!report.poolAddress) {
+      report.error = `${adapter.name} pool wallet not configured`;
+      reports.push(report);
+      continue;
+    }
+
+    try {
+      for (const token of getAssets(adapter)) {
+        const asset = await getAssetReport(adapter, token);
+        poolBalance.set({ chain: adapter.id, symbol: asset.symbol }, Number(asset.balance));
+        report.assets.push(asset);
+      }
+    } catch (error: any) {
+      log.error("Failed to read pool balances", { chain: adapter.id, error });
+      report.error = error?.message || "Failed to read pool balances";
+    }
+
+    reports.push(report);
+  }
+
+  return reports;
+}
+
+// Whether the pool can pay `payoutAmount` on top of everything it already owes.
+// Returns the currently available amount so callers can report it.
+export async function checkPoolCapacity(
+  adapter: ChainAdapter,
+  payoutAmount: string,
+  token?: TokenConfig
+): Promise<{ sufficient: boolean; available: string }> {
+  const decimals = token?.decimals ?? adapter.decimals;
+  const balance = await adapter.getPoolBalance(token);
+  const available = balance - (await getLiabilityUnits(adapter, token));
+
+  return {
+    sufficient: available >= toBaseUnits(payoutAmount, decimals),
+    available: fromBaseUnits(available > BigInt(0) ? available : BigInt(0), decimals),
+  };
+}
+
+export function startTreasuryMonitor(): void {
+  log.info("Starting treasury monitor", { intervalMs: TREASURY_CHECK_INTERVAL });
+
+  setInterval(() => {
+    void checkTreasury();
+  }, TREASURY_CHECK_INTERVAL);
+
+  void checkTreasury();
+}
+
+async function checkTreasury(): Promise<void> {
+  try {
+    for (const report of await getTreasuryReport()) {
+      for (const asset of report.assets) {
+        const key = `${report.chain}:${asset.tokenMint ?? "native"}`;
+
+        if (asset.belowThreshold && !lowAssets.has(key)) {
+          lowAssets.add(key);
+          await sendAlert(
+            `${report.name} pool ${asset.symbol} margin ${asset.margin} is below the ${asset.lowBalanceThreshold} threshold ` +
+              `(balance ${asset.balance}, liabilities ${asset.liabilities})`
+          );
+        } else if (!asset.belowThreshold && lowAssets.has(key)) {
+          lowAssets.delete(key);
+          log.info("Pool margin recovered", { chain: report.chain, symbol: asset.symbol, margin: asset.margin });
+        }
+      }
+    }
+  } catch (error) {
+    log.error("Error checking treasury", { error });
+  }
+}
+
+// Logs the alert and forwards it to TREASURY_ALERT_WEBHOOK_URL when configured (Slack-compatible payload).
+async function sendAlert(message: string): Promise<void> {
+  log.error("Treasury alert", { alert: message });
+
+  const webhookUrl = process.env.TREASURY_ALERT_WEBHOOK_URL;
+  if (!webhookUrl) return;
+
+  try {
+    const response = await fetch(webhookUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ text: `Treasury alert: ${message}` }),
+    });
+    if (!response.ok) {
+      log.error("Alert webhook responded with an error", { status: response.status });
+    }
+  } catch (error) {
+    log.error("Failed to deliver alert webhook", { error });
+  }
+}
@@ -5,25 +5,169 @@ import {
   type InsertTransaction,
   type MixerSession,
   type InsertMixerSession,
+  type MixerQuote,
+  type InsertMixerQuote,
+  type MixerPayoutAttempt,
+  type InsertMixerPayoutAttempt,
+  type IdempotencyKey,
+  type InsertIdempotencyKey,
+  type DeniedAddress,
+  type ScreeningDecision,
+  type InsertScreeningDecision,
+  type InsertLedgerEntry,
+  type RateLimitBucket,
+  type DepositScanCursor,
+  type GiftVault,
+  type InsertGiftVault,
+  type GiftVaultClaim,
+  type InsertGiftVaultClaim,
+  type GiftVaultCodeFailure,
+  type InsertGiftVaultCodeFailure,
   users,
   transactions,
-  mixerSessions
+  mixerSessions,
+  mixerQuotes,
+  mixerPayoutAttempts,
+  idempotencyKeys,
+  deniedAddresses,
+  screeningDecisions,
+  ledgerEntries,
+  rateLimitBuckets,
+  depositScanCursors,
+  giftVaults,
+  giftVaultClaims,
+  giftVaultCodeFailures
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, or, desc } from "drizzle-orm";
+import { eq, or, and, desc, lte, gt, isNull, isNotNull, inArray, sql, max, type SQL } from "drizzle-orm";
+import type { PgColumn } from "drizzle-orm/pg-core";
+
+export interface PoolLiability {
+  chain: string;
+  tokenMint: string | null;
+  total: string;
+}
+
+export interface LedgerBalance {
+  chain: string;
+  tokenMint: string | null;
+  balance: string;
+}
+
+export interface CodeFailureStats {
+  count: number;
+  lastFailedAt: Date | null;
+}
+
+// Sessions whose deposit the pool holds but hasn't paid out or refunded yet.
+const LIABILITY_STATUSES = [
+  "deposit_confirmed",
+  "payout_processing",
+  "payout_failed",
+  "held_for_review",
+  "refund_pending",
+  "refund_processing",
+  "refund_failed",
+];
+
+// EVM addresses are stored as entered, checksummed or not, so wallet lookups there ignore case.
+function addressEquals(column: PgColumn, address: string, ignoreCase: boolean): SQL {
+  return ignoreCase ? sql`lower(${column}) = ${address.toLowerCase()}` : eq(column, address);
+}
 
 export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
-  getTransactionsByAddress(address: string): Promise<Transaction[]>;
+  countUsers(): Promise<number>;
+  getTransactionsByAddress(address: string, ignoreCase?: boolean): Promise<Transaction[]>;
   getTransactionBySignature(signature: string): Promise<Transaction | undefined>;
   createTransaction(transaction: InsertTransaction): Promise<Transaction>;
   createMixerSession(session: InsertMixerSession): Promise<MixerSession>;
   getMixerSession(id: string): Promise<MixerSession | undefined>;
-  getMixerSessionsByAddress(address: string): Promise<MixerSession[]>;
-  updateMixerSession(id: string, updates: Partial<MixerSession>): Promise<MixerSession | undefined>;
+  getMixerSessionsByAddress(address: string, ignoreCase?: boolean): Promise<MixerSession[]>;
+  updateMixerSession(
+    id: string,
+    updates: Partial<MixerSession>,
+    expectedStatus?: string | string[],
+    ledger?: InsertLedgerEntry[]
+  ): Promise<MixerSession | undefined>;
   getPendingMixerSessions(): Promise<MixerSession[]>;
+  getMixerSessionsAwaitingDeposit(chain: string, expiredSince: Date): Promise<MixerSession[]>;
+  getMixerSessionsByStatus(status: string): Promise<MixerSession[]>;
+  expireStaleMixerSessions(): Promise<MixerSession[]>;
+  getMixerLiabilities(): Promise<PoolLiability[]>;
+  getLedgerBalances(account: string): Promise<LedgerBalance[]>;
+  getMixerSessionByDepositSignature(signature: string): Promise<MixerSession | undefined>;
+  createMixerQuote(quote: InsertMixerQuote): Promise<MixerQuote>;
+  getMixerQuote(id: string): Promise<MixerQuote | undefined>;
+  redeemMixerQuote(id: string): Promise<MixerQuote | undefined>;
+  claimMixerSessionForPayout(id: string): Promise<MixerSession | undefined>;
+  createPayoutAttempt(attempt: InsertMixerPayoutAttempt): Promise<MixerPayoutAttempt>;
+  updatePayoutAttempt(
+    id: string,
+    updates: Partial<MixerPayoutAttempt>,
+    expectedStatus?: string
+  ): Promise<MixerPayoutAttempt | undefined>;
+  getPayoutAttempts(sessionId: string): Promise<MixerPayoutAttempt[]>;
+  getLatestPayoutAttempt(sessionId: string): Promise<MixerPayoutAttempt | undefined>;
+  getIdempotencyKey(key: string, scope: string): Promise<IdempotencyKey | undefined>;
+  createIdempotencyKey(record: InsertIdempotencyKey): Promise<IdempotencyKey | undefined>;
+  completeIdempotencyKey(id: string, responseStatus: number, responseBody: unknown): Promise<void>;
+  deleteIdempotencyKey(id: string): Promise<void>;
+  hitRateLimitBucket(key: string, windowMs: number): Promise<RateLimitBucket>;
+  deleteExpiredRateLimitBuckets(): Promise<void>;
+  getDepositScanCursor(chain: string): Promise<DepositScanCursor | undefined>;
+  setDepositScanCursor(chain: string, cursor: string): Promise<void>;
+  getDeniedAddress(address: string): Promise<DeniedAddress | undefined>;
+  createScreeningDecisions(decisions: InsertScreeningDecision[]): Promise<ScreeningDecision[]>;
+  createGiftVault(vault: InsertGiftVault): Promise<GiftVault>;
+  getGiftVault(id: string): Promise<GiftVault | undefined>;
+  getGiftVaultByCodeLookup(codeLookup: string): Promise<GiftVault | undefined>;
+  getGiftVaultByDepositSignature(signature: string): Promise<GiftVault | undefined>;
+  getGiftVaultsByCreator(address: string, ignoreCase?: boolean): Promise<GiftVault[]>;
+  getGiftVaultsAwaitingDeposit(chain: string, expiredSince: Date): Promise<GiftVault[]>;
+  expireGiftVaults(): Promise<GiftVault[]>;
+  getExpiredGiftVaultsWithRemainder(): Promise<GiftVault[]>;
+  getGiftVaultClaims(vaultId: string): Promise<GiftVaultClaim[]>;
+  getGiftVaultClaimsByStatus(status: string): Promise<GiftVaultClaim[]>;
+  getStaleGiftVaultClaims(startedBefore: Date): Promise<GiftVaultClaim[]>;
+  reserveGiftVaultClaim(vault: GiftVault, claim: InsertGiftVaultClaim): Promise<GiftVaultClaim | undefined>;
+  completeGiftVaultClaim(
+    claim: GiftVaultClaim,
+    payoutSignature: string,
+    ledger: InsertLedgerEntry[]
+  ): Promise<GiftVaultClaim | undefined>;
+  recordGiftVaultClaimPayout(
+    claimId: string,
+    payoutSignature: string,
+    payoutTransaction: string,
+    payoutLastValidBlockHeight: number | null
+  ): Promise<GiftVaultClaim | undefined>;
+  releaseGiftVaultClaim(claim: GiftVaultClaim): Promise<void>;
+  beginGiftVaultReclaim(id: string): Promise<GiftVault | undefined>;
+  recordGiftVaultReclaimPayout(
+    id: string,
+    reclaimSignature: string,
+    reclaimTransaction: string,
+    reclaimLastValidBlockHeight: number | null
+  ): Promise<GiftVault | undefined>;
+  cancelGiftVaultReclaim(id: string, reclaimError: string): Promise<GiftVault | undefined>;
+  getStaleGiftVaultReclaims(startedBefore: Date): Promise<GiftVault[]>;
+  updateGiftVault(
+    id: string,
+    updates: Partial<GiftVault>,
+    expectedStatus?: string | string[],
+    ledger?: InsertLedgerEntry[]
+  ): Promise<GiftVault | undefined>;
+  getGiftVaultLiabilities(): Promise<PoolLiability[]>;
+  createGiftVaultCodeFailure(failure: InsertGiftVaultCodeFailure): Promise<GiftVaultCodeFailure>;
+  getGiftVaultCodeFailureStats(
+    ipAddress: string,
+    walletAddress: string | undefined,
+    status: number,
+    since: Date
+  ): Promise<CodeFailureStats>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -42,14 +186,19 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
-  async getTransactionsByAddress(address: string): Promise<Transaction[]> {
+  async countUsers(): Promise<number> {
+    const [result] = await db.select({ count: sql<number>`count(*)::int` }).from(users);
+    return result.count;
+  }
+
+  async getTransactionsByAddress(address: string, ignoreCase = false): Promise<Transaction[]> {
     return await db
       .select()
       .from(transactions)
       .where(
         or(
-          eq(transactions.fromAddress, address),
-          eq(transactions.toAddress, address)
+          addressEquals(transactions.fromAddress, address, ignoreCase),
+          addressEquals(transactions.toAddress, address, ignoreCase)
         )
       )
       .orderBy(desc(transactions.timestamp));
@@ -87,30 +236,654 @@ export class DatabaseStorage implements IStorage {
     return session || undefined;
   }
 
-  async getMixerSessionsByAddress(address: string): Promise<MixerSession[]> {
+  async getMixerSessionsByAddress(address: string, ignoreCase = false): Promise<MixerSession[]> {
     return await db
       .select()
       .from(mixerSessions)
-      .where(eq(mixerSessions.senderAddress, address))
+      .where(addressEquals(mixerSessions.senderAddress, address, ignoreCase))
       .orderBy(desc(mixerSessions.createdAt));
   }
 
-  async updateMixerSession(id: string, updates: Partial<MixerSession>): Promise<MixerSession | undefined> {
-    const [session] = await db
-      .update(mixerSessions)
-      .set(updates)
-      .where(eq(mixerSessions.id, id))
-      .returning();
-    return session || undefined;
+  // When expectedStatus is given the update only applies if the row is still in
+  // one of those statuses, so concurrent callers can't both win a transition.
+  // Ledger entries are written in the same transaction, and only if the update applied.
+  async updateMixerSession(
+    id: string,
+    updates: Partial<MixerSession>,
+    expectedStatus?: string | string[],
+    ledger: InsertLedgerEntry[] = []
+  ): Promise<MixerSession | undefined> {
+    const statusCondition = expectedStatus === undefined
+      ? undefined
+      : Array.isArray(expectedStatus)
+        ? inArray(mixerSessions.status, expectedStatus)
+        : eq(mixerSessions.status, expectedStatus);
+
+    return await db.transaction(async (tx) => {
+      const [session] = await tx
+        .update(mixerSessions)
+        .set(updates)
+        .where(and(eq(mixerSessions.id, id), statusCondition))
+        .returning();
+
+      if (session && ledger.length > 0) {
+        await tx.insert(ledgerEntries).values(ledger);
+      }
+      return session || undefined;
+    });
   }
 
   async getPendingMixerSessions(): Promise<MixerSession[]> {
     return await db
       .select()
       .from(mixerSessions)
-      .where(eq(mixerSessions.status, "deposit_confirmed"))
+      .where(
+        and(
+          eq(mixerSessions.status, "deposit_confirmed"),
+          or(
+            isNull(mixerSessions.nextPayoutAttemptAt),
+            lte(mixerSessions.nextPayoutAttemptAt, new Date())
+          )
+        )
+      )
       .orderBy(mixerSessions.depositConfirmedAt);
   }
+
+  // Pending sessions plus sessions that expired after `expiredSince`, whose late deposits get refunded.
+  async getMixerSessionsAwaitingDeposit(chain: string, expiredSince: Date): Promise<MixerSession[]> {
+    return await db
+      .select()
+      .from(mixerSessions)
+      .where(
+        and(
+          eq(mixerSessions.chain, chain),
+          or(
+            eq(mixerSessions.status, "pending"),
+            and(eq(mixerSessions.status, "expired"), gt(mixerSessions.expiresAt, expiredSince))
+          )
+        )
+      )
+      .orderBy(mixerSessions.createdAt);
+  }
+
+  async getMixerSessionsByStatus(status: string): Promise<MixerSession[]> {
+    return await db
+      .select()
+      .from(mixerSessions)
+      .where(eq(mixerSessions.status, status))
+      .orderBy(mixerSessions.createdAt);
+  }
+
+  async expireStaleMixerSessions(): Promise<MixerSession[]> {
+    return await db
+      .update(mixerSessions)
+      .set({ status: "expired" })
+      .where(and(eq(mixerSessions.status, "pending"), lte(mixerSessions.expiresAt, new Date())))
+      .returning();
+  }
+
+  async getMixerLiabilities(): Promise<PoolLiability[]> {
+    return await db
+      .select({
+        chain: mixerSessions.chain,
+        tokenMint: mixerSessions.tokenMint,
+        total: sql<string>`coalesce(sum(case
+          when ${mixerSessions.refundAmount} is not null then ${mixerSessions.refundAmount}
+          else coalesce(${mixerSessions.payoutAmount}, ${mixerSessions.amount})
+        end), 0)::text`,
+      })
+      .from(mixerSessions)
+      .where(inArray(mixerSessions.status, LIABILITY_STATUSES))
+      .groupBy(mixerSessions.chain, mixerSessions.tokenMint);
+  }
+
+  // Debits minus credits per chain and asset.
+  async getLedgerBalances(account: string): Promise<LedgerBalance[]> {
+    return await db
+      .select({
+        chain: ledgerEntries.chain,
+        tokenMint: ledgerEntries.tokenMint,
+        balance: sql<string>`coalesce(sum(case
+          when ${ledgerEntries.side} = 'debit' then ${ledgerEntries.amount}
+          else -${ledgerEntries.amount}
+        end), 0)::text`,
+      })
+      .from(ledgerEntries)
+      .where(eq(ledgerEntries.account, account))
+      .groupBy(ledgerEntries.chain, ledgerEntries.tokenMint);
+  }
+
+  async getMixerSessionByDepositSignature(signature: string): Promise<MixerSession | undefined> {
+    const [session] = await db
+      .select()
+      .from(mixerSessions)
+      .where(eq(mixerSessions.depositSignature, signature));
+    return session || undefined;
+  }
+
+  async createMixerQuote(insertQuote: InsertMixerQuote): Promise<MixerQuote> {
+    const [quote] = await db
+      .insert(mixerQuotes)
+      .values(insertQuote)
+      .returning();
+    return quote;
+  }
+
+  async getMixerQuote(id: string): Promise<MixerQuote | undefined> {
+    const [quote] = await db
+      .select()
+      .from(mixerQuotes)
+      .where(eq(mixerQuotes.id, id));
+    return quote || undefined;
+  }
+
+  // Marks an unexpired quote as used; returns undefined if it was already redeemed or has expired.
+  async redeemMixerQuote(id: string): Promise<MixerQuote | undefined> {
+    const [quote] = await db
+      .update(mixerQuotes)
+      .set({ redeemedAt: new Date() })
+      .where(
+        and(
+          eq(mixerQuotes.id, id),
+          isNull(mixerQuotes.redeemedAt),
+          gt(mixerQuotes.expiresAt, new Date())
+        )
+      )
+      .returning();
+    return quote || undefined;
+  }
+
+  async claimMixerSessionForPayout(id: string): Promise<MixerSession | undefined> {
+    return this.updateMixerSession(id, { status: "payout_processing" }, "deposit_confirmed");
+  }
+
+  async createPayoutAttempt(insertAttempt: InsertMixerPayoutAttempt): Promise<MixerPayoutAttempt> {
+    const [attempt] = await db
+      .insert(mixerPayoutAttempts)
+      .values(insertAttempt)
+      .returning();
+    return attempt;
+  }
+
+  async updatePayoutAttempt(
+    id: string,
+    updates: Partial<MixerPayoutAttempt>,
+    expectedStatus?: string
+  ): Promise<MixerPayoutAttempt | undefined> {
+    const [attempt] = await db
+      .update(mixerPayoutAttempts)
+      .set(updates)
+      .where(
+        and(
+          eq(mixerPayoutAttempts.id, id),
+          expectedStatus === undefined ? undefined : eq(mixerPayoutAttempts.status, expectedStatus)
+        )
+      )
+      .returning();
+    return attempt || undefined;
+  }
+
+  async getPayoutAttempts(sessionId: string): Promise<MixerPayoutAttempt[]> {
+    return await db
+      .select()
+      .from(mixerPayoutAttempts)
+      .where(eq(mixerPayoutAttempts.sessionId, sessionId))
+      .orderBy(mixerPayoutAttempts.attemptNumber);
+  }
+
+  async getLatestPayoutAttempt(sessionId: string): Promise<MixerPayoutAttempt | undefined> {
+    const [attempt] = await db
+      .select()
+      .from(mixerPayoutAttempts)
+      .where(eq(mixerPayoutAttempts.sessionId, sessionId))
+      .orderBy(desc(mixerPayoutAttempts.attemptNumber))
+      .limit(1);
+    return attempt || undefined;
+  }
+
+  async getIdempotencyKey(key: string, scope: string): Promise<IdempotencyKey | undefined> {
+    const [record] = await db
+      .select()
+      .from(idempotencyKeys)
+      .where(and(eq(idempotencyKeys.key, key), eq(idempotencyKeys.scope, scope)));
+    return record || undefined;
+  }
+
+  async createIdempotencyKey(insertRecord: InsertIdempotencyKey): Promise<IdempotencyKey | undefined> {
+    const [record] = await db
+      .insert(idempotencyKeys)
+      .values(insertRecord)
+      .onConflictDoNothing()
+      .returning();
+    return record || undefined;
+  }
+
+  async completeIdempotencyKey(id: string, responseStatus: number, responseBody: unknown): Promise<void> {
+    await db
+      .update(idempotencyKeys)
+      .set({ responseStatus, responseBody, completedAt: new Date() })
+      .where(eq(idempotencyKeys.id, id));
+  }
+
+  async deleteIdempotencyKey(id: string): Promise<void> {
+    await db.delete(idempotencyKeys).where(eq(idempotencyKeys.id, id));
+  }
+
+  // Increments the bucket, starting a fresh window when the previous one has ended.
+  async hitRateLimitBucket(key: string, windowMs: number): Promise<RateLimitBucket> {
+    const now = new Date();
+    const nextReset = new Date(now.getTime() + windowMs);
+    // Typed params so the dates are encoded the same way drizzle stores reset_at.
+    const nowParam = sql.param(now, rateLimitBuckets.resetAt);
+    const [bucket] = await db
+      .insert(rateLimitBuckets)
+      .values({ key, count: 1, resetAt: nextReset })
+      .onConflictDoUpdate({
+        target: rateLimitBuckets.key,
+        set: {
+          count: sql`case when ${rateLimitBuckets.resetAt} <= ${nowParam} then 1 else ${rateLimitBuckets.count} + 1 end`,
+          resetAt: sql`case when ${rateLimitBuckets.resetAt} <= ${nowParam} then ${sql.param(nextReset, rateLimitBuckets.resetAt)} else ${rateLimitBuckets.resetAt} end`,
+        },
+      })
+      .returning();
+    return bucket;
+  }
+
+  async deleteExpiredRateLimitBuckets(): Promise<void> {
+    await db.delete(rateLimitBuckets).where(lte(rateLimitBuckets.resetAt, new Date()));
+  }
+
+  async getDepositScanCursor(chain: string): Promise<DepositScanCursor | undefined> {
+    const [record] = await db
+      .select()
+      .from(depositScanCursors)
+      .where(eq(depositScanCursors.chain, chain));
+    return record || undefined;
+  }
+
+  async setDepositScanCursor(chain: string, cursor: string): Promise<void> {
+    await db
+      .insert(depositScanCursors)
+      .values({ chain, cursor })
+      .onConflictDoUpdate({
+        target: depositScanCursors.chain,
+        set: { cursor, updatedAt: new Date() },
+      });
+  }
+
+  async getDeniedAddress(address: string): Promise<DeniedAddress | undefined> {
+    const [record] = await db
+      .select()
+      .from(deniedAddresses)
+      .where(eq(deniedAddresses.address, address));
+    return record || undefined;
+  }
+
+  async createScreeningDecisions(decisions: InsertScreeningDecision[]): Promise<ScreeningDecision[]> {
+    if (decisions.length === 0) return [];
+    return await db
+      .insert(screeningDecisions)
+      .values(decisions)
+      .returning();
+  }
+
+  async createGiftVault(insertVault: InsertGiftVault): Promise<GiftVault> {
+    const [vault] = await db
+      .insert(giftVaults)
+      .values(insertVault)
+      .returning();
+    return vault;
+  }
+
+  async getGiftVault(id: string): Promise<GiftVault | undefined> {
+    const [vault] = await db
+      .select()
+      .from(giftVaults)
+      .where(eq(giftVaults.id, id));
+    return vault || undefined;
+  }
+
+  async getGiftVaultByCodeLookup(codeLookup: string): Promise<GiftVault | undefined> {
+    const [vault] = await db
+      .select()
+      .from(giftVaults)
+      .where(eq(giftVaults.codeLookup, codeLookup));
+    return vault || undefined;
+  }
+
+  async getGiftVaultByDepositSignature(signature: string): Promise<GiftVault | undefined> {
+    const [vault] = await db
+      .select()
+      .from(giftVaults)
+      .where(eq(giftVaults.depositSignature, signature));
+    return vault || undefined;
+  }
+
+  async getGiftVaultsByCreator(address: string, ignoreCase = false): Promise<GiftVault[]> {
+    return await db
+      .select()
+      .from(giftVaults)
+      .where(addressEquals(giftVaults.creatorAddress, address, ignoreCase))
+      .orderBy(desc(giftVaults.createdAt));
+  }
+
+  async getGiftVaultsAwaitingDeposit(chain: string, expiredSince: Date): Promise<GiftVault[]> {
+    return await db
+      .select()
+      .from(giftVaults)
+      .where(
+        and(
+          eq(giftVaults.chain, chain),
+          isNull(giftVaults.depositSignature),
+          or(
+            eq(giftVaults.status, "pending"),
+            and(eq(giftVaults.status, "expired"), gt(giftVaults.expiresAt, expiredSince))
+          )
+        )
+      )
+      .orderBy(giftVaults.createdAt);
+  }
+
+  async expireGiftVaults(): Promise<GiftVault[]> {
+    return await db
+      .update(giftVaults)
+      .set({ status: "expired" })
+      .where(and(inArray(giftVaults.status, ["pending", "funded"]), lte(giftVaults.expiresAt, new Date())))
+      .returning();
+  }
+
+  // Same compare-and-set and ledger semantics as updateMixerSession.
+  async updateGiftVault(
+    id: string,
+    updates: Partial<GiftVault>,
+    expectedStatus?: string | string[],
+    ledger: InsertLedgerEntry[] = []
+  ): Promise<GiftVault | undefined> {
+    const statusCondition = expectedStatus === undefined
+      ? undefined
+      : Array.isArray(expectedStatus)
+        ? inArray(giftVaults.status, expectedStatus)
+        : eq(giftVaults.status, expectedStatus);
+
+    return await db.transaction(async (tx) => {
+      const [vault] = await tx
+        .update(giftVaults)
+        .set(updates)
+        .where(and(eq(giftVaults.id, id), statusCondition))
+        .returning();
+
+      if (vault && ledger.length > 0) {
+        await tx.insert(ledgerEntries).values(ledger);
+      }
+      return vault || undefined;
+    });
+  }
+
+  async getExpiredGiftVaultsWithRemainder(): Promise<GiftVault[]> {
+    return await db
+      .select()
+      .from(giftVaults)
+      .where(
+        and(
+          eq(giftVaults.status, "expired"),
+          isNotNull(giftVaults.depositSignature),
+          sql`${giftVaults.claimedAmount} < ${giftVaults.amount}`
+        )
+      )
+      .orderBy(giftVaults.expiresAt);
+  }
+
+  async getGiftVaultClaims(vaultId: string): Promise<GiftVaultClaim[]> {
+    return await db
+      .select()
+      .from(giftVaultClaims)
+      .where(eq(giftVaultClaims.vaultId, vaultId))
+      .orderBy(giftVaultClaims.createdAt);
+  }
+
+  async getGiftVaultClaimsByStatus(status: string): Promise<GiftVaultClaim[]> {
+    return await db
+      .select()
+      .from(giftVaultClaims)
+      .where(eq(giftVaultClaims.status, status))
+      .orderBy(giftVaultClaims.createdAt);
+  }
+
+  async getStaleGiftVaultClaims(startedBefore: Date): Promise<GiftVaultClaim[]> {
+    return await db
+      .select()
+      .from(giftVaultClaims)
+      .where(and(eq(giftVaultClaims.status, "claiming"), lte(giftVaultClaims.createdAt, startedBefore)))
+      .orderBy(giftVaultClaims.createdAt);
+  }
+
+  // Takes the next share of a funded vault. The compare-and-set on claimedCount means a concurrent
+  // claim computed against the same remainder loses; a second claim by the same wallet fails on the
+  // unique index and rolls the counters back with it.
+  async reserveGiftVaultClaim(vault: GiftVault, claim: InsertGiftVaultClaim): Promise<GiftVaultClaim | undefined> {
+    return await db.transaction(async (tx) => {
+      const [reserved] = await tx
+        .update(giftVaults)
+        .set({
+          claimedCount: sql`${giftVaults.claimedCount} + 1`,
+          claimedAmount: sql`${giftVaults.claimedAmount} + ${claim.amount}`,
+          status: sql`case when ${giftVaults.claimedCount} + 1 >= ${giftVaults.maxClaims} then 'claimed' else ${giftVaults.status} end`,
+        })
+        .where(
+          and(
+            eq(giftVaults.id, vault.id),
+            eq(giftVaults.status, "funded"),
+            eq(giftVaults.claimedCount, vault.claimedCount),
+            gt(giftVaults.expiresAt, new Date())
+          )
+        )
+        .returning();
+      if (!reserved) {
+        return undefined;
+      }
+
+      const [created] = await tx
+        .insert(giftVaultClaims)
+        .values(claim)
+        .returning();
+      return created;
+    });
+  }
+
+  async completeGiftVaultClaim(
+    claim: GiftVaultClaim,
+    payoutSignature: string,
+    ledger: InsertLedgerEntry[]
+  ): Promise<GiftVaultClaim | undefined> {
+    return await db.transaction(async (tx) => {
+      const claimedAt = new Date();
+      const [completed] = await tx
+        .update(giftVaultClaims)
+        .set({ status: "claimed", payoutSignature, claimedAt })
+        .where(and(eq(giftVaultClaims.id, claim.id), eq(giftVaultClaims.status, "claiming")))
+        .returning();
+      if (!completed) {
+        return undefined;
+      }
+
+      await tx
+        .update(giftVaults)
+        .set({ claimedAt })
+        .where(eq(giftVaults.id, claim.vaultId));
+      if (ledger.length > 0) {
+        await tx.insert(ledgerEntries).values(ledger);
+      }
+      return completed;
+    });
+  }
+
+  // At most one transaction is ever recorded per claim, and none once the claim has been released.
+  async recordGiftVaultClaimPayout(
+    claimId: string,
+    payoutSignature: string,
+    payoutTransaction: string,
+    payoutLastValidBlockHeight: number | null
+  ): Promise<GiftVaultClaim | undefined> {
+    const [claim] = await db
+      .update(giftVaultClaims)
+      .set({ payoutSignature, payoutTransaction, payoutLastValidBlockHeight })
+      .where(
+        and(
+          eq(giftVaultClaims.id, claimId),
+          eq(giftVaultClaims.status, "claiming"),
+          isNull(giftVaultClaims.payoutTransaction)
+        )
+      )
+      .returning();
+    return claim || undefined;
+  }
+
+  // Undoes reserveGiftVaultClaim so the share can be claimed again. Only for payouts known not to
+  // have moved funds: never signed, or failed or dropped on chain.
+  async releaseGiftVaultClaim(claim: GiftVaultClaim): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [released] = await tx
+        .delete(giftVaultClaims)
+        .where(and(eq(giftVaultClaims.id, claim.id), eq(giftVaultClaims.status, "claiming")))
+        .returning();
+      if (!released) {
+        return;
+      }
+
+      await tx
+        .update(giftVaults)
+        .set({
+          claimedCount: sql`${giftVaults.claimedCount} - 1`,
+          claimedAmount: sql`${giftVaults.claimedAmount} - ${claim.amount}`,
+          status: sql`case when ${giftVaults.status} = 'claimed' then 'funded' else ${giftVaults.status} end`,
+        })
+        .where(eq(giftVaults.id, claim.vaultId));
+    });
+  }
+
+  // Waits out in-flight claims: one that fails after the remainder is fixed would otherwise
+  // hand its share back to a vault that is already being emptied. Claims under review block it too.
+  async beginGiftVaultReclaim(id: string): Promise<GiftVault | undefined> {
+    const [vault] = await db
+      .update(giftVaults)
+      .set({
+        status: "reclaiming",
+        reclaimAmount: sql`${giftVaults.amount} - ${giftVaults.claimedAmount}`,
+        reclaimStartedAt: new Date(),
+      })
+      .where(
+        and(
+          eq(giftVaults.id, id),
+          inArray(giftVaults.status, ["funded", "expired"]),
+          isNotNull(giftVaults.depositSignature),
+          sql`${giftVaults.claimedAmount} < ${giftVaults.amount}`,
+          sql`not exists (select 1 from ${giftVaultClaims} where ${giftVaultClaims.vaultId} = ${giftVaults.id} and ${giftVaultClaims.status} in ('claiming', 'review'))`
+        )
+      )
+      .returning();
+    return vault || undefined;
+  }
+
+  async recordGiftVaultReclaimPayout(
+    id: string,
+    reclaimSignature: string,
+    reclaimTransaction: string,
+    reclaimLastValidBlockHeight: number | null
+  ): Promise<GiftVault | undefined> {
+    const [vault] = await db
+      .update(giftVaults)
+      .set({ reclaimSignature, reclaimTransaction, reclaimLastValidBlockHeight })
+      .where(
+        and(
+          eq(giftVaults.id, id),
+          eq(giftVaults.status, "reclaiming"),
+          isNull(giftVaults.reclaimTransaction)
+        )
+      )
+      .returning();
+    return vault || undefined;
+  }
+
+  // Only while no transaction is recorded, i.e. nothing can have been broadcast for this reclaim.
+  async cancelGiftVaultReclaim(id: string, reclaimError: string): Promise<GiftVault | undefined> {
+    const [vault] = await db
+      .update(giftVaults)
+      .set({ status: "expired", reclaimAmount: null, reclaimStartedAt: null, reclaimError })
+      .where(
+        and(
+          eq(giftVaults.id, id),
+          eq(giftVaults.status, "reclaiming"),
+          isNull(giftVaults.reclaimTransaction)
+        )
+      )
+      .returning();
+    return vault || undefined;
+  }
+
+  // Reclaims started before `startedBefore`, plus any in flight before reclaimStartedAt existed.
+  async getStaleGiftVaultReclaims(startedBefore: Date): Promise<GiftVault[]> {
+    return await db
+      .select()
+      .from(giftVaults)
+      .where(
+        and(
+          eq(giftVaults.status, "reclaiming"),
+          or(isNull(giftVaults.reclaimStartedAt), lte(giftVaults.reclaimStartedAt, startedBefore))
+        )
+      )
+      .orderBy(giftVaults.expiresAt);
+  }
+
+  // What the pool still owes on funded vaults: the deposit less shares paid out, until the
+  // remainder has been returned to the creator.
+  async getGiftVaultLiabilities(): Promise<PoolLiability[]> {
+    const paid = sql`coalesce((
+      select sum(${giftVaultClaims.amount}) from ${giftVaultClaims}
+      where ${giftVaultClaims.vaultId} = ${giftVaults.id} and ${giftVaultClaims.status} = 'claimed'
+    ), 0)`;
+    return await db
+      .select({
+        chain: giftVaults.chain,
+        tokenMint: giftVaults.tokenMint,
+        total: sql<string>`coalesce(sum(${giftVaults.amount} - ${paid}), 0)::text`,
+      })
+      .from(giftVaults)
+      .where(and(isNotNull(giftVaults.depositSignature), sql`${giftVaults.status} <> 'reclaimed'`))
+      .groupBy(giftVaults.chain, giftVaults.tokenMint);
+  }
+
+  async createGiftVaultCodeFailure(failure: InsertGiftVaultCodeFailure): Promise<GiftVaultCodeFailure> {
+    const [created] = await db
+      .insert(giftVaultCodeFailures)
+      .values(failure)
+      .returning();
+    return created;
+  }
+
+  // Failures from the IP or, when given, the wallet, so switching either alone doesn't reset them.
+  async getGiftVaultCodeFailureStats(
+    ipAddress: string,
+    walletAddress: string | undefined,
+    status: number,
+    since: Date
+  ): Promise<CodeFailureStats> {
+    const [stats] = await db
+      .select({
+        count: sql<number>`count(*)::int`,
+        lastFailedAt: max(giftVaultCodeFailures.createdAt),
+      })
+      .from(giftVaultCodeFailures)
+      .where(
+        and(
+          eq(giftVaultCodeFailures.status, status),
+          gt(giftVaultCodeFailures.createdAt, since),
+          walletAddress
+            ? or(eq(giftVaultCodeFailures.ipAddress, ipAddress), eq(giftVaultCodeFailures.walletAddress, walletAddress))
+            : eq(giftVaultCodeFailures.ipAddress, ipAddress)
+        )
+      );
+    return stats;
+  }
 }
 
 export const storage = new DatabaseStorage();
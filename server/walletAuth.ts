@@ -0,0 +1,155 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import { randomBytes } from "crypto";
+import { z } from "zod";
+import { getChainAdapter } from "./chains/registry";
+import { rateLimit } from "./middleware/rateLimit";
+
+interface PendingWalletSignIn {
+  chain: string;
+  address: string;
+  message: string;
+  expiresAt: number;
+}
+
+export interface WalletIdentity {
+  chain: string;
+  address: string;
+}
+
+declare module "express-session" {
+  interface SessionData {
+    walletSignIn?: PendingWalletSignIn;
+    wallet?: WalletIdentity;
+    // Kept by passport for the signed-in operator.
+    passport?: { user?: unknown };
+  }
+}
+
+const NONCE_TTL_MS = 5 * 60 * 1000; // 5 minutes
+
+const nonceRequestSchema = z.object({
+  chain: z.string().default("solana"),
+  address: z.string().min(1),
+});
+
+const verifyRequestSchema = z.object({
+  message: z.string().min(1),
+  signature: z.string().min(1),
+});
+
+// SIWS and EIP-4361 share this layout; only the account label in the first line differs.
+function buildSignInMessage(
+  req: Request,
+  family: "solana" | "evm",
+  address: string,
+  chainId: string,
+  nonce: string,
+  issuedAt: Date,
+  expiresAt: Date
+): string {
+  const host = req.get("host") || "localhost";
+  return [
+    `${host} wants you to sign in with your ${family === "solana" ? "Solana" : "Ethereum"} account:`,
+    address,
+    "",
+    "Sign in to VeilraOS to view your transfer history.",
+    "",
+    `URI: ${req.protocol}://${host}`,
+    "Version: 1",
+    `Chain ID: ${chainId}`,
+    `Nonce: ${nonce}`,
+    `Issued At: ${issuedAt.toISOString()}`,
+    `Expiration Time: ${expiresAt.toISOString()}`,
+  ].join("\n");
+}
+
+// EVM addresses are hex, so their case (the checksum) doesn't change which wallet they name.
+export function hasCaseInsensitiveAddress(wallet: WalletIdentity): boolean {
+  return getChainAdapter(wallet.chain)?.family === "evm";
+}
+
+export function isSameWallet(wallet: WalletIdentity, address: string): boolean {
+  return hasCaseInsensitiveAddress(wallet)
+    ? wallet.address.toLowerCase() === address.toLowerCase()
+    : wallet.address === address;
+}
+
+export function requireWallet(req: Request, res: Response, next: NextFunction) {
+  if (!req.session.wallet) {
+    return res.status(401).json({ error: "Wallet sign-in required" });
+  }
+  next();
+}
+
+export function setupWalletAuth(app: Express): void {
+  app.post("/api/auth/wallet/nonce", rateLimit("auth"), (req, res) => {
+    const parsed = nonceRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid request", details: parsed.error.errors });
+    }
+
+    const adapter = getChainAdapter(parsed.data.chain);
+    if (!adapter) {
+      return res.status(400).json({ error: "Unsupported chain" });
+    }
+
+    const { address } = parsed.data;
+    if (!adapter.isValidAddress(address)) {
+      return res.status(400).json({ error: `Invalid ${adapter.name} address` });
+    }
+
+    const issuedAt = new Date();
+    const expiresAt = new Date(issuedAt.getTime() + NONCE_TTL_MS);
+    const nonce = randomBytes(16).toString("hex");
+    const message = buildSignInMessage(req, adapter.family, address, adapter.chainId, nonce, issuedAt, expiresAt);
+
+    req.session.walletSignIn = { chain: adapter.id, address, message, expiresAt: expiresAt.getTime() };
+    res.json({ nonce, message, expiresAt });
+  });
+
+  app.post("/api/auth/wallet/verify", rateLimit("auth"), (req, res, next) => {
+    const parsed = verifyRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid request", details: parsed.error.errors });
+    }
+
+    const pending = req.session.walletSignIn;
+    // The nonce is single-use whether or not verification succeeds.
+    delete req.session.walletSignIn;
+
+    if (!pending || pending.expiresAt < Date.now()) {
+      return res.status(401).json({ error: "Sign-in request expired or not found" });
+    }
+
+    if (parsed.data.message !== pending.message) {
+      return res.status(401).json({ error: "Signed message does not match the issued challenge" });
+    }
+
+    const adapter = getChainAdapter(pending.chain);
+    if (!adapter || !adapter.verifySignedMessage(pending.message, parsed.data.signature, pending.address)) {
+      return res.status(401).json({ error: "Invalid signature" });
+    }
+
+    const wallet: WalletIdentity = { chain: pending.chain, address: pending.address };
+    // A fresh session id guards against fixation; an operator signed in alongside stays signed in.
+    const passport = req.session.passport;
+    req.session.regenerate((err) => {
+      if (err) return next(err);
+      if (passport) req.session.passport = passport;
+      req.session.wallet = wallet;
+      res.json(wallet);
+    });
+  });
+
+  app.get("/api/auth/wallet", (req, res) => {
+    if (!req.session.wallet) {
+      return res.status(401).json({ error: "Not signed in" });
+    }
+    res.json(req.session.wallet);
+  });
+
+  app.post("/api/auth/wallet/logout", (req, res) => {
+    delete req.session.wallet;
+    res.sendStatus(204);
+  });
+}
@@ -1,5 +1,5 @@
-import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, numeric, integer } from "drizzle-orm/pg-core";
+import { sql, relations } from "drizzle-orm";
+import { pgTable, text, varchar, timestamp, numeric, integer, bigint, real, json, jsonb, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -7,8 +7,19 @@ export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
+  role: text("role").notNull().default("viewer"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Login sessions, read and written by connect-pg-simple. The layout is the one that library expects.
+export const sessions = pgTable("session", {
+  sid: varchar("sid").primaryKey(),
+  sess: json("sess").notNull(),
+  expire: timestamp("expire", { precision: 6 }).notNull(),
+}, (table) => [
+  index("IDX_session_expire").on(table.expire),
+]);
+
 export const transactions = pgTable("transactions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   signature: text("signature").notNull().unique(),
@@ -23,20 +34,453 @@ export const transactions = pgTable("transactions", {
 
 export const mixerSessions = pgTable("mixer_sessions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  chain: text("chain").notNull().default("solana"),
   senderAddress: text("sender_address").notNull(),
   recipientAddress: text("recipient_address").notNull(),
-  amount: numeric("amount", { precision: 20, scale: 9 }).notNull(),
-  depositSignature: text("deposit_signature"),
+  amount: numeric("amount", { precision: 38, scale: 18 }).notNull(),
+  tokenMint: text("token_mint"),
+  quoteId: varchar("quote_id").references(() => mixerQuotes.id),
+  serviceFee: numeric("service_fee", { precision: 38, scale: 18 }),
+  payoutAmount: numeric("payout_amount", { precision: 38, scale: 18 }),
+  depositSignature: text("deposit_signature").unique(),
   payoutSignature: text("payout_signature"),
   status: text("status").notNull().default("pending"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   depositConfirmedAt: timestamp("deposit_confirmed_at"),
   payoutSentAt: timestamp("payout_sent_at"),
+  networkFee: numeric("network_fee", { precision: 38, scale: 18 }),
+  payoutAttempts: integer("payout_attempts").notNull().default(0),
+  nextPayoutAttemptAt: timestamp("next_payout_attempt_at"),
+  lastPayoutError: text("last_payout_error"),
+  expiresAt: timestamp("expires_at").notNull().default(sql`now() + interval '30 minutes'`),
+  refundAmount: numeric("refund_amount", { precision: 38, scale: 18 }),
+  refundReason: text("refund_reason"),
+  refundSignature: text("refund_signature"),
+  refundTransaction: text("refund_transaction"),
+  refundLastValidBlockHeight: bigint("refund_last_valid_block_height", { mode: "number" }),
+  refundAttempts: integer("refund_attempts").notNull().default(0),
+  refundError: text("refund_error"),
+  refundedAt: timestamp("refunded_at"),
+  screeningStatus: text("screening_status").notNull().default("clear"),
+  reviewReason: text("review_reason"),
+}, (table) => [
+  index("mixer_sessions_status_idx").on(table.status),
+]);
+
+export const mixerQuotes = pgTable("mixer_quotes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  chain: text("chain").notNull(),
+  tokenMint: text("token_mint"),
+  amount: numeric("amount", { precision: 38, scale: 18 }).notNull(),
+  serviceFee: numeric("service_fee", { precision: 38, scale: 18 }).notNull(),
+  networkFee: numeric("network_fee", { precision: 38, scale: 18 }).notNull(),
+  payoutAmount: numeric("payout_amount", { precision: 38, scale: 18 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  redeemedAt: timestamp("redeemed_at"),
+});
+
+// Status runs started -> signed -> succeeded or failed. The signed transaction is stored before it
+// is broadcast, so a "signed" attempt may be on chain and is checked there before any retry;
+// "started" means nothing was sent. "unknown" marks attempts in flight before signing was recorded,
+// which are left for manual review.
+export const mixerPayoutAttempts = pgTable("mixer_payout_attempts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sessionId: varchar("session_id").notNull().references(() => mixerSessions.id, { onDelete: "cascade" }),
+  attemptNumber: integer("attempt_number").notNull(),
+  status: text("status").notNull().default("started"),
+  amount: numeric("amount", { precision: 38, scale: 18 }),
+  payoutSignature: text("payout_signature"),
+  rawTransaction: text("raw_transaction"),
+  lastValidBlockHeight: bigint("last_valid_block_height", { mode: "number" }),
+  error: text("error"),
+  startedAt: timestamp("started_at").defaultNow().notNull(),
+  finishedAt: timestamp("finished_at"),
+}, (table) => [
+  index("mixer_payout_attempts_session_id_idx").on(table.sessionId),
+]);
+
+export const idempotencyKeys = pgTable("idempotency_keys", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  key: text("key").notNull(),
+  scope: text("scope").notNull(),
+  requestHash: text("request_hash").notNull(),
+  responseStatus: integer("response_status"),
+  responseBody: jsonb("response_body"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+}, (table) => [
+  uniqueIndex("idempotency_keys_key_scope_idx").on(table.key, table.scope),
+]);
+
+export const rateLimitBuckets = pgTable("rate_limit_buckets", {
+  key: text("key").primaryKey(),
+  count: integer("count").notNull().default(0),
+  resetAt: timestamp("reset_at").notNull(),
+});
+
+// Where the deposit watcher left off on each chain. The cursor is opaque outside the chain adapter.
+export const depositScanCursors = pgTable("deposit_scan_cursors", {
+  chain: text("chain").primaryKey(),
+  cursor: text("cursor").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Internal denylist; `action` is "deny" to reject outright or "flag" to hold for review.
+export const deniedAddresses = pgTable("denied_addresses", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  address: text("address").notNull().unique(),
+  chain: text("chain"),
+  action: text("action").notNull().default("deny"),
+  reason: text("reason"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const screeningDecisions = pgTable("screening_decisions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  context: text("context").notNull(),
+  subjectId: varchar("subject_id"),
+  chain: text("chain").notNull(),
+  address: text("address").notNull(),
+  role: text("role").notNull(),
+  decision: text("decision").notNull(),
+  list: text("list"),
+  reason: text("reason"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("screening_decisions_subject_idx").on(table.subjectId),
+  index("screening_decisions_address_idx").on(table.address),
+]);
+
+// One row per posting. Rows sharing a journalId form a balanced entry: per chain and asset,
+// debits equal credits. tokenMint is null for the chain's native asset.
+export const ledgerEntries = pgTable("ledger_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  journalId: varchar("journal_id").notNull(),
+  account: text("account").notNull(),
+  side: text("side").notNull(),
+  amount: numeric("amount", { precision: 38, scale: 18 }).notNull(),
+  chain: text("chain").notNull(),
+  tokenMint: text("token_mint"),
+  subjectId: varchar("subject_id"),
+  reference: text("reference"),
+  memo: text("memo"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("ledger_entries_journal_idx").on(table.journalId),
+  index("ledger_entries_account_idx").on(table.account, table.chain, table.tokenMint),
+  index("ledger_entries_subject_idx").on(table.subjectId),
+]);
+
+export const giftVaultSplitModes = ["equal", "random"] as const;
+export type GiftVaultSplitMode = typeof giftVaultSplitModes[number];
+
+// The claim code is never stored: codeLookup is a keyed digest used to find the vault, and
+// codeHash a salted hash that must also match. The creator sees the plaintext once, at creation.
+// Vaults from before the keyed lookup can't be found by code; migration 0022 expired them instead.
+// Status runs pending -> funded -> claimed once all maxClaims shares are handed out. Vaults not
+// fully claimed expire, and the remainder goes back to the creator (expired -> reclaiming ->
+// reclaimed). claimedCount/claimedAmount include shares whose payout is still in flight.
+export const giftVaults = pgTable("gift_vaults", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  chain: text("chain").notNull().default("solana"),
+  creatorAddress: text("creator_address").notNull(),
+  codeLookup: text("code_lookup").notNull().unique(),
+  codeHash: text("code_hash").notNull(),
+  tokenMint: text("token_mint").notNull(),
+  amount: numeric("amount", { precision: 38, scale: 18 }).notNull(),
+  status: text("status").notNull().default("pending"),
+  depositSignature: text("deposit_signature").unique(),
+  maxClaims: integer("max_claims").notNull().default(1),
+  splitMode: text("split_mode").notNull().default("equal"),
+  claimedCount: integer("claimed_count").notNull().default(0),
+  claimedAmount: numeric("claimed_amount", { precision: 38, scale: 18 }).notNull().default("0"),
+  reclaimAmount: numeric("reclaim_amount", { precision: 38, scale: 18 }),
+  reclaimSignature: text("reclaim_signature"),
+  reclaimTransaction: text("reclaim_transaction"),
+  reclaimLastValidBlockHeight: bigint("reclaim_last_valid_block_height", { mode: "number" }),
+  reclaimError: text("reclaim_error"),
+  reclaimStartedAt: timestamp("reclaim_started_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  fundedAt: timestamp("funded_at"),
+  claimedAt: timestamp("claimed_at"),
+  reclaimedAt: timestamp("reclaimed_at"),
+  expiresAt: timestamp("expires_at").notNull(),
+}, (table) => [
+  index("gift_vaults_creator_idx").on(table.creatorAddress),
+  index("gift_vaults_status_idx").on(table.status),
+]);
+
+// One row per share handed out. The unique index is what limits each wallet to one claim per vault.
+// The payout's signed transaction is stored before it is broadcast; a claim still "claiming" with one
+// may have been paid and is only released once the chain shows it was not. Claims in flight before
+// transactions were recorded are marked "review": nobody can tell whether they were paid.
+export const giftVaultClaims = pgTable("gift_vault_claims", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  vaultId: varchar("vault_id").notNull().references(() => giftVaults.id, { onDelete: "cascade" }),
+  claimerAddress: text("claimer_address").notNull(),
+  amount: numeric("amount", { precision: 38, scale: 18 }).notNull(),
+  status: text("status").notNull().default("claiming"),
+  payoutSignature: text("payout_signature"),
+  payoutTransaction: text("payout_transaction"),
+  payoutLastValidBlockHeight: bigint("payout_last_valid_block_height", { mode: "number" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  claimedAt: timestamp("claimed_at"),
+}, (table) => [
+  uniqueIndex("gift_vault_claims_vault_claimer_idx").on(table.vaultId, table.claimerAddress),
+]);
+
+// Audit trail of failed code checks and claims. Recent unknown-code failures by IP or wallet
+// also drive the progressive lockout on those routes.
+export const giftVaultCodeFailures = pgTable("gift_vault_code_failures", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  action: text("action").notNull(),
+  ipAddress: text("ip_address").notNull(),
+  walletAddress: text("wallet_address"),
+  status: integer("status").notNull(),
+  reason: text("reason").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("gift_vault_code_failures_ip_idx").on(table.ipAddress, table.createdAt),
+  index("gift_vault_code_failures_wallet_idx").on(table.walletAddress, table.createdAt),
+]);
+
+export const agents = pgTable("agents", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  persona: text("persona").notNull(),
+  eloRating: integer("elo_rating").notNull().default(1000),
+  totalMatches: integer("total_matches").notNull().default(0),
+  wins: integer("wins").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const knowledgeNodes = pgTable("knowledge_nodes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  agentId: varchar("agent_id").notNull().references(() => agents.id, { onDelete: "cascade" }),
+  topic: text("topic").notNull(),
+  content: text("content").notNull(),
+  confidence: real("confidence").notNull().default(0.5),
+  chainScope: text("chain_scope"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("knowledge_nodes_agent_id_idx").on(table.agentId),
+]);
+
+export const knowledgeEdges = pgTable("knowledge_edges", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sourceNodeId: varchar("source_node_id").notNull().references(() => knowledgeNodes.id, { onDelete: "cascade" }),
+  targetNodeId: varchar("target_node_id").notNull().references(() => knowledgeNodes.id, { onDelete: "cascade" }),
+  relationType: text("relation_type").notNull(),
+  weight: real("weight").notNull().default(1),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("knowledge_edges_source_node_id_idx").on(table.sourceNodeId),
+  index("knowledge_edges_target_node_id_idx").on(table.targetNodeId),
+]);
+
+export const agentMatches = pgTable("agent_matches", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  agent1Id: varchar("agent1_id").notNull().references(() => agents.id, { onDelete: "cascade" }),
+  agent2Id: varchar("agent2_id").notNull().references(() => agents.id, { onDelete: "cascade" }),
+  winnerId: varchar("winner_id").references(() => agents.id, { onDelete: "set null" }),
+  matchType: text("match_type").notNull().default("knowledge_trade"),
+  knowledgeExchanged: text("knowledge_exchanged"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
 });
 
+export const tradingBattles = pgTable("trading_battles", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  agent1Id: varchar("agent1_id").notNull().references(() => agents.id, { onDelete: "cascade" }),
+  agent2Id: varchar("agent2_id").notNull().references(() => agents.id, { onDelete: "cascade" }),
+  winnerId: varchar("winner_id").references(() => agents.id, { onDelete: "set null" }),
+  status: text("status").notNull().default("pending"),
+  startingBalance: numeric("starting_balance", { precision: 20, scale: 8 }).notNull().default("10000"),
+  durationHours: integer("duration_hours").notNull().default(12),
+  baseAsset: text("base_asset").notNull().default("bitcoin"),
+  quoteAsset: text("quote_asset").notNull().default("usd"),
+  initialPrice: numeric("initial_price", { precision: 20, scale: 8 }),
+  agent1FinalBalance: numeric("agent1_final_balance", { precision: 20, scale: 8 }),
+  agent2FinalBalance: numeric("agent2_final_balance", { precision: 20, scale: 8 }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  startedAt: timestamp("started_at"),
+  endsAt: timestamp("ends_at"),
+  completedAt: timestamp("completed_at"),
+}, (table) => [
+  index("trading_battles_status_idx").on(table.status),
+]);
+
+export const battlePortfolios = pgTable("battle_portfolios", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  battleId: varchar("battle_id").notNull().references(() => tradingBattles.id, { onDelete: "cascade" }),
+  agentId: varchar("agent_id").notNull().references(() => agents.id, { onDelete: "cascade" }),
+  cashBalance: numeric("cash_balance", { precision: 20, scale: 8 }).notNull(),
+  assetBalance: numeric("asset_balance", { precision: 28, scale: 12 }).notNull().default("0"),
+  lastPrice: numeric("last_price", { precision: 20, scale: 8 }).notNull().default("0"),
+  totalValue: numeric("total_value", { precision: 20, scale: 8 }).notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("battle_portfolios_battle_agent_idx").on(table.battleId, table.agentId),
+]);
+
+export const battleTrades = pgTable("battle_trades", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  battleId: varchar("battle_id").notNull().references(() => tradingBattles.id, { onDelete: "cascade" }),
+  agentId: varchar("agent_id").notNull().references(() => agents.id, { onDelete: "cascade" }),
+  tradeType: text("trade_type").notNull(),
+  assetAmount: numeric("asset_amount", { precision: 28, scale: 12 }).notNull(),
+  price: numeric("price", { precision: 20, scale: 8 }).notNull(),
+  cashAmount: numeric("cash_amount", { precision: 20, scale: 8 }).notNull(),
+  reasoning: text("reasoning"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("battle_trades_battle_id_idx").on(table.battleId),
+]);
+
+export const battleRounds = pgTable("battle_rounds", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  battleId: varchar("battle_id").notNull().references(() => tradingBattles.id, { onDelete: "cascade" }),
+  roundNumber: integer("round_number").notNull(),
+  assetPrice: numeric("asset_price", { precision: 20, scale: 8 }).notNull(),
+  agent1TotalValue: numeric("agent1_total_value", { precision: 20, scale: 8 }).notNull(),
+  agent2TotalValue: numeric("agent2_total_value", { precision: 20, scale: 8 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("battle_rounds_battle_round_idx").on(table.battleId, table.roundNumber),
+]);
+
+export const mixerSessionsRelations = relations(mixerSessions, ({ one, many }) => ({
+  quote: one(mixerQuotes, {
+    fields: [mixerSessions.quoteId],
+    references: [mixerQuotes.id],
+  }),
+  payoutAttempts: many(mixerPayoutAttempts),
+}));
+
+export const mixerPayoutAttemptsRelations = relations(mixerPayoutAttempts, ({ one }) => ({
+  session: one(mixerSessions, {
+    fields: [mixerPayoutAttempts.sessionId],
+    references: [mixerSessions.id],
+  }),
+}));
+
+export const giftVaultsRelations = relations(giftVaults, ({ many }) => ({
+  claims: many(giftVaultClaims),
+}));
+
+export const giftVaultClaimsRelations = relations(giftVaultClaims, ({ one }) => ({
+  vault: one(giftVaults, {
+    fields: [giftVaultClaims.vaultId],
+    references: [giftVaults.id],
+  }),
+}));
+
+export const agentsRelations = relations(agents, ({ many }) => ({
+  knowledgeNodes: many(knowledgeNodes),
+  portfolios: many(battlePortfolios),
+  trades: many(battleTrades),
+}));
+
+export const knowledgeNodesRelations = relations(knowledgeNodes, ({ one, many }) => ({
+  agent: one(agents, {
+    fields: [knowledgeNodes.agentId],
+    references: [agents.id],
+  }),
+  outgoingEdges: many(knowledgeEdges, { relationName: "sourceNode" }),
+  incomingEdges: many(knowledgeEdges, { relationName: "targetNode" }),
+}));
+
+export const knowledgeEdgesRelations = relations(knowledgeEdges, ({ one }) => ({
+  sourceNode: one(knowledgeNodes, {
+    fields: [knowledgeEdges.sourceNodeId],
+    references: [knowledgeNodes.id],
+    relationName: "sourceNode",
+  }),
+  targetNode: one(knowledgeNodes, {
+    fields: [knowledgeEdges.targetNodeId],
+    references: [knowledgeNodes.id],
+    relationName: "targetNode",
+  }),
+}));
+
+export const agentMatchesRelations = relations(agentMatches, ({ one }) => ({
+  agent1: one(agents, {
+    fields: [agentMatches.agent1Id],
+    references: [agents.id],
+    relationName: "matchAgent1",
+  }),
+  agent2: one(agents, {
+    fields: [agentMatches.agent2Id],
+    references: [agents.id],
+    relationName: "matchAgent2",
+  }),
+  winner: one(agents, {
+    fields: [agentMatches.winnerId],
+    references: [agents.id],
+    relationName: "matchWinner",
+  }),
+}));
+
+export const tradingBattlesRelations = relations(tradingBattles, ({ one, many }) => ({
+  agent1: one(agents, {
+    fields: [tradingBattles.agent1Id],
+    references: [agents.id],
+    relationName: "battleAgent1",
+  }),
+  agent2: one(agents, {
+    fields: [tradingBattles.agent2Id],
+    references: [agents.id],
+    relationName: "battleAgent2",
+  }),
+  winner: one(agents, {
+    fields: [tradingBattles.winnerId],
+    references: [agents.id],
+    relationName: "battleWinner",
+  }),
+  portfolios: many(battlePortfolios),
+  trades: many(battleTrades),
+  rounds: many(battleRounds),
+}));
+
+export const battlePortfoliosRelations = relations(battlePortfolios, ({ one }) => ({
+  battle: one(tradingBattles, {
+    fields: [battlePortfolios.battleId],
+    references: [tradingBattles.id],
+  }),
+  agent: one(agents, {
+    fields: [battlePortfolios.agentId],
+    references: [agents.id],
+  }),
+}));
+
+export const battleTradesRelations = relations(battleTrades, ({ one }) => ({
+  battle: one(tradingBattles, {
+    fields: [battleTrades.battleId],
+    references: [tradingBattles.id],
+  }),
+  agent: one(agents, {
+    fields: [battleTrades.agentId],
+    references: [agents.id],
+  }),
+}));
+
+export const battleRoundsRelations = relations(battleRounds, ({ one }) => ({
+  battle: one(tradingBattles, {
+    fields: [battleRounds.battleId],
+    references: [tradingBattles.id],
+  }),
+}));
+
+export const userRoles = ["viewer", "operator", "admin"] as const;
+export type UserRole = typeof userRoles[number];
+
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
+  role: true,
+}).extend({
+  role: z.enum(userRoles).optional(),
 });
 
 export const insertTransactionSchema = createInsertSchema(transactions).omit({
@@ -49,6 +493,124 @@ export const insertMixerSessionSchema = createInsertSchema(mixerSessions).omit({
   createdAt: true,
   depositConfirmedAt: true,
   payoutSentAt: true,
+  networkFee: true,
+  payoutAttempts: true,
+  nextPayoutAttemptAt: true,
+  lastPayoutError: true,
+  refundAmount: true,
+  refundReason: true,
+  refundSignature: true,
+  refundTransaction: true,
+  refundLastValidBlockHeight: true,
+  refundAttempts: true,
+  refundError: true,
+  refundedAt: true,
+});
+
+export const insertMixerQuoteSchema = createInsertSchema(mixerQuotes).omit({
+  id: true,
+  createdAt: true,
+  redeemedAt: true,
+});
+
+export const insertMixerPayoutAttemptSchema = createInsertSchema(mixerPayoutAttempts).omit({
+  id: true,
+  startedAt: true,
+  finishedAt: true,
+});
+
+export const insertIdempotencyKeySchema = createInsertSchema(idempotencyKeys).omit({
+  id: true,
+  createdAt: true,
+  completedAt: true,
+});
+
+export const insertDeniedAddressSchema = createInsertSchema(deniedAddresses).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertScreeningDecisionSchema = createInsertSchema(screeningDecisions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertLedgerEntrySchema = createInsertSchema(ledgerEntries).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertGiftVaultSchema = createInsertSchema(giftVaults).omit({
+  id: true,
+  status: true,
+  depositSignature: true,
+  claimedCount: true,
+  claimedAmount: true,
+  reclaimAmount: true,
+  reclaimSignature: true,
+  reclaimTransaction: true,
+  reclaimLastValidBlockHeight: true,
+  reclaimError: true,
+  reclaimStartedAt: true,
+  createdAt: true,
+  fundedAt: true,
+  claimedAt: true,
+  reclaimedAt: true,
+});
+
+export const insertGiftVaultClaimSchema = createInsertSchema(giftVaultClaims).omit({
+  id: true,
+  status: true,
+  payoutSignature: true,
+  payoutTransaction: true,
+  payoutLastValidBlockHeight: true,
+  createdAt: true,
+  claimedAt: true,
+});
+
+export const insertGiftVaultCodeFailureSchema = createInsertSchema(giftVaultCodeFailures).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertAgentSchema = createInsertSchema(agents).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertKnowledgeNodeSchema = createInsertSchema(knowledgeNodes).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertKnowledgeEdgeSchema = createInsertSchema(knowledgeEdges).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertAgentMatchSchema = createInsertSchema(agentMatches).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertTradingBattleSchema = createInsertSchema(tradingBattles).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertBattlePortfolioSchema = createInsertSchema(battlePortfolios).omit({
+  id: true,
+  updatedAt: true,
+});
+
+export const insertBattleTradeSchema = createInsertSchema(battleTrades).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertBattleRoundSchema = createInsertSchema(battleRounds).omit({
+  id: true,
+  createdAt: true,
 });
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
@@ -57,3 +619,39 @@ export type InsertTransaction = z.infer<typeof insertTransactionSchema>;
 export type Transaction = typeof transactions.$inferSelect;
 export type InsertMixerSession = z.infer<typeof insertMixerSessionSchema>;
 export type MixerSession = typeof mixerSessions.$inferSelect;
+export type InsertMixerQuote = z.infer<typeof insertMixerQuoteSchema>;
+export type MixerQuote = typeof mixerQuotes.$inferSelect;
+export type InsertMixerPayoutAttempt = z.infer<typeof insertMixerPayoutAttemptSchema>;
+export type MixerPayoutAttempt = typeof mixerPayoutAttempts.$inferSelect;
+export type InsertIdempotencyKey = z.infer<typeof insertIdempotencyKeySchema>;
+export type IdempotencyKey = typeof idempotencyKeys.$inferSelect;
+export type InsertDeniedAddress = z.infer<typeof insertDeniedAddressSchema>;
+export type DeniedAddress = typeof deniedAddresses.$inferSelect;
+export type InsertScreeningDecision = z.infer<typeof insertScreeningDecisionSchema>;
+export type ScreeningDecision = typeof screeningDecisions.$inferSelect;
+export type InsertLedgerEntry = z.infer<typeof insertLedgerEntrySchema>;
+export type LedgerEntry = typeof ledgerEntries.$inferSelect;
+export type RateLimitBucket = typeof rateLimitBuckets.$inferSelect;
+export type DepositScanCursor = typeof depositScanCursors.$inferSelect;
+export type InsertGiftVault = z.infer<typeof insertGiftVaultSchema>;
+export type GiftVault = typeof giftVaults.$inferSelect;
+export type InsertGiftVaultClaim = z.infer<typeof insertGiftVaultClaimSchema>;
+export type GiftVaultClaim = typeof giftVaultClaims.$inferSelect;
+export type InsertGiftVaultCodeFailure = z.infer<typeof insertGiftVaultCodeFailureSchema>;
+export type GiftVaultCodeFailure = typeof giftVaultCodeFailures.$inferSelect;
+export type InsertAgent = z.infer<typeof insertAgentSchema>;
+export type Agent = typeof agents.$inferSelect;
+export type InsertKnowledgeNode = z.infer<typeof insertKnowledgeNodeSchema>;
+export type KnowledgeNode = typeof knowledgeNodes.$inferSelect;
+export type InsertKnowledgeEdge = z.infer<typeof insertKnowledgeEdgeSchema>;
+export type KnowledgeEdge = typeof knowledgeEdges.$inferSelect;
+export type InsertAgentMatch = z.infer<typeof insertAgentMatchSchema>;
+export type AgentMatch = typeof agentMatches.$inferSelect;
+export type InsertTradingBattle = z.infer<typeof insertTradingBattleSchema>;
+export type TradingBattle = typeof tradingBattles.$inferSelect;
+export type InsertBattlePortfolio = z.infer<typeof insertBattlePortfolioSchema>;
+export type BattlePortfolio = typeof battlePortfolios.$inferSelect;
+export type InsertBattleTrade = z.infer<typeof insertBattleTradeSchema>;
+export type BattleTrade = typeof battleTrades.$inferSelect;
+export type InsertBattleRound = z.infer<typeof insertBattleRoundSchema>;
+export type BattleRound = typeof battleRounds.$inferSelect;